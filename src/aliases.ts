@@ -0,0 +1,202 @@
+// グローバルAPIのフィールド参照（`screen.drawRect`・`math.floor`など）のエイリアス化。
+// 同じパスを繰り返し参照している場合に、チャンクの先頭でローカルに代入し
+// （`local a=screen.drawRect`）、各参照をそのローカルへの参照に置き換える。
+// エイリアスのローカルはRenameパスで他のシンボルと同様に短縮名を割り当てられる。
+//
+// エイリアスはチャンクの先頭で一度だけ評価されるため、プログラムのどこからも
+// 代入されないグローバル（Stormworks API・標準ライブラリ）を起点とするパスに限る。
+// ASTは複数のMinifier（ParseCache）で共有されるため変更せず、置き換えはprinter
+// （MinifyFile）が出力時に行う。
+import Parser from "luaparse";
+import { Chunk } from "./ast2lua";
+import { LuaConstant } from "./defines";
+import { walk } from "./linker";
+import { ResolveResult, Scope, Symbol } from "./resolver";
+
+export interface GlobalAlias {
+  // 元のパス（"screen.drawRect"）
+  readonly path: string;
+  readonly symbol: Symbol;
+}
+
+export interface GlobalAliases {
+  // チャンクの先頭で宣言する順
+  readonly aliases: readonly GlobalAlias[];
+  // エイリアスに置き換えるフィールド参照と、置き換え先の識別子
+  readonly references: ReadonlyMap<Parser.MemberExpression, Parser.Identifier>;
+  // エイリアスのシンボルをチャンクのスコープに加えたResolveパスの結果
+  // （Renameパスにはこちらを渡す）
+  readonly resolved: ResolveResult;
+}
+
+type ConstantLookup = (
+  identifier: Parser.Identifier,
+) => LuaConstant | undefined;
+
+// 短縮名の長さは名前の割当前には分からないため、2文字として見積もる
+export const ESTIMATED_NAME_LENGTH = 2;
+// 宣言文1つ分の固定の文字数（`local`・`=`・前後の区切り）
+export const DECLARATION_OVERHEAD = "local =".length + 1;
+
+// 代入先・関数名の式が書き換えるグローバル変数（`x.y[1] = v`ならx）
+function rootGlobalOf(
+  expr: Parser.Expression,
+  resolved: ResolveResult,
+): string | undefined {
+  let e = expr;
+  while (e.type === "MemberExpression" || e.type === "IndexExpression") {
+    e = e.base;
+  }
+  return e.type === "Identifier" && !resolved.symbolOf(e) ? e.name : undefined;
+}
+
+/**
+ * モジュールが代入する（フィールドへの代入・関数定義を含む）グローバル変数の
+ * 名前を求める。
+ */
+export function collectWrittenGlobals(
+  ast: Chunk,
+  resolved: ResolveResult,
+): Set<string> {
+  const written = new Set<string>();
+  const add = (expr: Parser.Expression) => {
+    const name = rootGlobalOf(expr, resolved);
+    if (name !== undefined) {
+      written.add(name);
+    }
+  };
+  walk(ast, (n) => {
+    const node = n as unknown as Parser.Node;
+    if (node.type === "AssignmentStatement") {
+      node.variables.forEach(add);
+    } else if (
+      node.type === "FunctionDeclaration" &&
+      !node.isLocal &&
+      node.identifier
+    ) {
+      add(node.identifier);
+    }
+  });
+  return written;
+}
+
+/**
+ * モジュールの中で繰り返し参照されるグローバルのフィールド参照のうち、ローカルに
+ * 置き換えると出力が短くなるものを選ぶ。置き換えるものが無ければundefinedを返す。
+ * `writtenGlobals`はプログラム全体で代入されるグローバル変数、`skipped`は
+ * 出力しない文（この中の参照は数えない）、`maxAliases`は宣言できるローカルの数。
+ */
+export function planGlobalAliases(
+  ast: Chunk,
+  resolved: ResolveResult,
+  writtenGlobals: ReadonlySet<string>,
+  constantOf: ConstantLookup,
+  skipped: ReadonlySet<Parser.Node>,
+  maxAliases: number,
+): GlobalAliases | undefined {
+  // `local _ENV`があると、以後のグローバル参照はチャンクの先頭と別のテーブルを指す
+  if (resolved.symbols.some((symbol) => symbol.name === "_ENV")) {
+    return undefined;
+  }
+  const pathOf = (expr: Parser.Expression): string | undefined => {
+    if (expr.type === "Identifier") {
+      return !resolved.symbolOf(expr) &&
+        constantOf(expr) === undefined &&
+        !writtenGlobals.has(expr.name)
+        ? expr.name
+        : undefined;
+    }
+    if (expr.type === "MemberExpression" && expr.indexer === ".") {
+      const base = pathOf(expr.base);
+      return base === undefined ? undefined : base + "." + expr.identifier.name;
+    }
+    return undefined;
+  };
+
+  // パスごとの参照箇所（`a.b.c`は`a.b`としては数えない）
+  const occurrences = new Map<string, Parser.MemberExpression[]>();
+  walk(ast, (n) => {
+    const node = n as unknown as Parser.Node;
+    if (skipped.has(node)) {
+      return false;
+    }
+    if (node.type !== "MemberExpression") {
+      return true;
+    }
+    const path = pathOf(node);
+    if (path === undefined) {
+      return true;
+    }
+    const list = occurrences.get(path) ?? [];
+    list.push(node);
+    occurrences.set(path, list);
+    return false;
+  });
+
+  // 各参照で短くなる文字数から、宣言に加わる`名前,`と`パス,`の分を引く
+  const savingOf = (path: string, count: number) =>
+    count * (path.length - ESTIMATED_NAME_LENGTH) -
+    (ESTIMATED_NAME_LENGTH + path.length + 2);
+  const selected = [...occurrences]
+    .filter(([path, list]) => savingOf(path, list.length) > 0)
+    .sort(
+      ([a, aList], [b, bList]) =>
+        savingOf(b, bList.length) - savingOf(a, aList.length),
+    )
+    .slice(0, Math.max(0, maxAliases));
+  const total = selected.reduce(
+    (sum, [path, list]) => sum + savingOf(path, list.length),
+    0,
+  );
+  if (total <= DECLARATION_OVERHEAD) {
+    return undefined;
+  }
+
+  const chunkScope: Scope = {
+    ...resolved.chunkScope,
+    symbols: [...resolved.chunkScope.symbols],
+  };
+  const symbolOfAlias = new Map<Parser.Identifier, Symbol>();
+  const references = new Map<Parser.MemberExpression, Parser.Identifier>();
+  const identifierAt = (
+    name: string,
+    node: Parser.Node,
+  ): Parser.Identifier => ({
+    type: "Identifier",
+    name,
+    loc: node.loc,
+  });
+  const aliases = selected.map(([path, list], ix): GlobalAlias => {
+    const name = path.split(".").join("_");
+    const symbol: Symbol = {
+      id: resolved.symbols.length + ix,
+      name,
+      kind: "local",
+      scope: chunkScope,
+      declaration: identifierAt(name, list[0]),
+      references: list.map((member) => {
+        const reference = identifierAt(name, member);
+        references.set(member, reference);
+        return reference;
+      }),
+    };
+    [symbol.declaration, ...symbol.references].forEach((identifier) => {
+      symbolOfAlias.set(identifier, symbol);
+    });
+    return { path, symbol };
+  });
+  // エイリアスはチャンクの先頭で宣言するため、他のローカルより前に置く
+  chunkScope.symbols.unshift(...aliases.map(({ symbol }) => symbol));
+
+  return {
+    aliases,
+    references,
+    resolved: {
+      ...resolved,
+      chunkScope,
+      symbols: [...aliases.map(({ symbol }) => symbol), ...resolved.symbols],
+      symbolOf: (identifier) =>
+        symbolOfAlias.get(identifier) ?? resolved.symbolOf(identifier),
+    },
+  };
+}
@@ -6,6 +6,17 @@ import Parser, { Comment } from "luaparse";
 import { SourceNode } from "source-map";
 import { Minifier, MinifierMode } from "./minifier";
 import { staticStringArgument } from "./linker";
+import { constantExpression } from "./defines";
+import { foldIfClauses } from "./folding";
+import { isMultiValueExpression } from "./locals";
+import { identifierKeyOf, positionalFieldsOf } from "./tables";
+import { leadingChar, Printable, trailingText } from "./tokens";
+import { formatNumericLiteral } from "./numeric";
+import { encodeLuaString, formatStringLiteral } from "./luastring";
+import {
+  isBinaryOperatorSupported,
+  isUnaryOperatorSupported,
+} from "./luaversion";
 
 export type Chunk = Parser.Chunk & {
   globals?: (Parser.Base<"Identifer"> & {
@@ -15,6 +26,8 @@ export type Chunk = Parser.Chunk & {
   comments?: Comment[];
 };
 
+// 5.3の演算子をすべて含む優先順位表。対象Luaバージョンに存在しない演算子
+// （5.1/5.2/LuaJITでのビット演算子・`//`）は出力時にエラーにする。
 const PRECEDENCE: Record<string, number> = {
   or: 1,
   and: 2,
@@ -99,6 +112,9 @@ export const IDENTIFIER_PARTS = [
   "_",
 ];
 
+// --prettyの1段の字下げ
+export const INDENT = "  ";
+
 function wrapArray<T>(obj: T | T[]): T[] {
   if (Array.isArray(obj)) {
     return obj;
@@ -164,6 +180,11 @@ function isNeedSeparator(a: string, b: string) {
   if (lastCharA == "" || firstCharB == "") {
     return false;
   }
+  if (firstCharB == "." && /(^|[^a-zA-Z0-9_])0[xX][0-9a-fA-F]*$/.test(a)) {
+    // 16進の数値リテラルは"."を取り込んで読まれる
+    // e.g. `0xff` + `..x`
+    return true;
+  }
   if (regexAlphaUnderscore.test(lastCharA)) {
     if (regexAlphaNumUnderscore.test(firstCharB)) {
       // e.g. `while` + `1`
@@ -189,6 +210,11 @@ function isNeedSeparator(a: string, b: string) {
       return true;
     }
   }
+  if (lastCharA == "." && firstCharB == ".") {
+    // e.g. `3.` + `..x`
+    // e.g. `x..` + `.5`
+    return true;
+  }
   if (lastCharA == firstCharB && lastCharA == "-") {
     // e.g. `1-` + `-2`
     return true;
@@ -212,19 +238,32 @@ interface ExpressionOptoions {
   parent?: string | undefined;
 }
 
+// --pretty: 区切りが不要でも読みやすさのために空白を入れるか
+// e.g. `if` + `(a)`, `)` + `then`, `not` + `x`
+function isPrettySpace(a: string, b: string) {
+  const lastCharA = a.slice(-1);
+  const firstCharB = b.charAt(0);
+  const regexAlphaNumUnderscore = /[a-zA-Z0-9_]/;
+  if (regexAlphaNumUnderscore.test(lastCharA)) {
+    return /[({["'#~.-]/.test(firstCharB);
+  }
+  return /[)}\]"']/.test(lastCharA) && regexAlphaNumUnderscore.test(firstCharB);
+}
+
+function isSeparated(a: string, b: string, pretty: boolean) {
+  return isNeedSeparator(a, b) || (pretty && isPrettySpace(a, b));
+}
+
+// 区切りの判定は、前の出力の末尾と次の出力の先頭の文字だけを読んで行う
+// （出力全体を文字列にしないため、出力の長さに比例した時間で済む）。
+// 配列で渡した部分は","で連結したものとして判定する（従来の出力と同じ）。
 function addWithSeparator(
   val: SourceNode,
-  adding: (string | SourceNode)[] | SourceNode | string,
+  adding: Printable[] | Printable,
   separator = " ",
+  pretty = false,
 ) {
-  if (
-    isNeedSeparator(
-      val.toString(),
-      wrapArray(adding)
-        .map((p) => p.toString())
-        .join(),
-    )
-  ) {
+  if (isSeparated(trailingText(val), leadingChar(adding, ","), pretty)) {
     val.add(separator);
   }
   val.add(adding);
@@ -233,17 +272,11 @@ function addWithSeparator(
 
 function prependWithSeparator(
   val: SourceNode,
-  prepending: (string | SourceNode)[] | SourceNode | string,
+  prepending: Printable[] | Printable,
   separator = " ",
+  pretty = false,
 ) {
-  if (
-    isNeedSeparator(
-      wrapArray(prepending)
-        .map((p) => p.toString())
-        .join(),
-      val.toString(),
-    )
-  ) {
+  if (isSeparated(trailingText(prepending, ","), leadingChar(val), pretty)) {
     val.prepend(separator);
   }
   val.prepend(prepending);
@@ -251,11 +284,25 @@ function prependWithSeparator(
 }
 
 function insertSeparator(
-  a: string | SourceNode,
-  b: string | SourceNode,
+  a: Printable,
+  b: Printable,
   separator = " ",
+  pretty = false,
 ) {
-  return isNeedSeparator(a.toString(), b.toString()) ? separator : undefined;
+  return isSeparated(trailingText(a), leadingChar(b), pretty)
+    ? separator
+    : undefined;
+}
+
+/**
+ * 出力に残すコメント（`--#`・`--[[#`で始まるもの）か。入力のSource Mapを指す
+ * `sourceMappingURL`のコメントは出力のコードには当てはまらないため残さない。
+ */
+export function isPreservedComment(comment: Parser.Comment): boolean {
+  return (
+    (comment.raw.includes("--#") || comment.raw.includes("[[#")) &&
+    !comment.raw.includes("sourceMappingURL=")
+  );
 }
 
 export class MinifyFile {
@@ -264,6 +311,8 @@ export class MinifyFile {
   private ast: Chunk;
   private minifier: Minifier;
   private mode: MinifierMode;
+  // --pretty: ブロックの入れ子の深さ（字下げの数）
+  private depth: number;
 
   constructor(
     fileName: string,
@@ -271,23 +320,92 @@ export class MinifyFile {
     ast: Chunk,
     minifier: Minifier,
     mode: MinifierMode,
+    depth = 0,
   ) {
     this.fileName = fileName;
     this.moduleName = moduleName;
     this.ast = ast;
     this.minifier = minifier;
     this.mode = mode;
+    this.depth = depth;
+  }
+
+  private get pretty() {
+    return this.mode.pretty ?? false;
+  }
+
+  private get comma() {
+    return this.pretty ? ", " : ",";
+  }
+
+  private get equals() {
+    return this.pretty ? " = " : "=";
+  }
+
+  // 文の区切りの改行（--prettyでは次の行の字下げを含む）
+  private newline() {
+    return this.pretty ? "\n" + INDENT.repeat(this.depth) : "\n";
+  }
+
+  private append(
+    val: SourceNode,
+    adding: Printable[] | Printable,
+    separator = " ",
+  ) {
+    return addWithSeparator(val, adding, separator, this.pretty);
+  }
+
+  private prepend(
+    val: SourceNode,
+    prepending: Printable[] | Printable,
+    separator = " ",
+  ) {
+    return prependWithSeparator(val, prepending, separator, this.pretty);
+  }
+
+  // 二項演算子の前後の区切り（--prettyでは常に空白）
+  private operatorSeparator(a: Printable, b: Printable) {
+    return this.pretty ? " " : insertSeparator(a, b);
+  }
+
+  // 文の並びの末尾に文を足す
+  private appendStatement(val: SourceNode, statement: SourceNode) {
+    if (!this.pretty) {
+      return this.append(val, statement, "\n");
+    }
+    if (trailingText(val) !== "" && leadingChar(statement) !== "") {
+      val.add(this.newline());
+    }
+    val.add(statement);
+    return val;
+  }
+
+  // 文の並びの先頭に文を足す
+  private prependStatement(val: SourceNode, statement: Printable) {
+    if (!this.pretty) {
+      return this.prepend(val, statement, "\n");
+    }
+    if (leadingChar(val) !== "") {
+      val.prepend(this.newline());
+    }
+    val.prepend(statement);
+    return val;
   }
 
   parse(noComment: boolean) {
-    const body = this.formatStatementList(this.ast.body);
+    const body = this.formatChunkBody(this.ast.body);
     if (!noComment && this.ast.comments) {
-      const comments = this.ast.comments;
-      comments
+      // ASTは複数のMinifier（ParseCache）や複数の展開箇所で共有されるため、
+      // コメントの配列をその場で並べ替えない
+      this.ast.comments
+        .slice()
         .reverse()
-        .filter((v) => v.raw.includes("--#") || v.raw.includes("[[#"))
+        .filter(isPreservedComment)
         .forEach((comment) => {
-          body.prepend([this.sourceNodeHelper(comment, comment.raw), "\n"]);
+          body.prepend([
+            this.sourceNodeHelper(comment, comment.raw),
+            this.newline(),
+          ]);
         });
       return body;
     } else {
@@ -314,16 +432,16 @@ export class MinifyFile {
       return undefined;
     }
 
-    const statements = this.formatStatementList(body.slice(0, -1));
+    const statements = this.formatChunkBody(body.slice(0, -1));
     if (!noComment && this.ast.comments) {
       this.ast.comments
         .slice()
         .reverse()
-        .filter((v) => v.raw.includes("--#") || v.raw.includes("[[#"))
+        .filter(isPreservedComment)
         .forEach((comment) => {
           statements.prepend([
             this.sourceNodeHelper(comment, comment.raw),
-            "\n",
+            this.newline(),
           ]);
         });
     }
@@ -339,6 +457,20 @@ export class MinifyFile {
   ) {
     const line = node?.loc?.start.line;
     const column = node?.loc?.start.column;
+    // モジュールに入力のSource Mapがあれば、元のソース（.tsなど）の位置・名前にする
+    const original =
+      line == undefined || column == undefined
+        ? undefined
+        : this.minifier.originalPositionOf(this.moduleName, line, column);
+    if (original) {
+      return new SourceNode(
+        original.line,
+        original.column,
+        original.source,
+        chuncks,
+        name === undefined ? undefined : (original.name ?? name),
+      );
+    }
     // this.fileNameは常にこのMinifyFileインスタンスが担当するモジュール自身の
     // ファイル名（Linkパスで解決済み）なので、ここで出力するノードの由来ファイルとして正しい。
     return new SourceNode(
@@ -350,14 +482,77 @@ export class MinifyFile {
     );
   }
 
-  private formatStatementList(body: Parser.Statement[] | Parser.Statement) {
+  // 文の並びを、同じ深さの文として出力する
+  private joinStatements(body: Parser.Statement[] | Parser.Statement) {
     const result = this.sourceNodeHelper(undefined, []);
-    wrapArray(body).forEach((statement) => {
-      addWithSeparator(result, this.formatStatement(statement), "\n");
-    });
+    this.liveStatements(wrapArray(body))
+      // 先頭の`local`文に結合した文は、先頭の文と一緒に出力する
+      .filter(
+        (statement) => !this.minifier.isMergedLocal(this.moduleName, statement),
+      )
+      .forEach((statement) => {
+        this.appendStatement(result, this.formatStatement(statement));
+      });
+    return result;
+  }
+
+  // ブロック（`do`・`then`などと`end`の間）の文の並び。--prettyでは1段深く字下げし、
+  // 前後で改行する
+  private formatStatementList(body: Parser.Statement[] | Parser.Statement) {
+    if (!this.pretty) {
+      return this.joinStatements(body);
+    }
+    this.depth++;
+    const result = this.joinStatements(body);
+    this.depth--;
+    if (leadingChar(result) !== "") {
+      result.prepend("\n" + INDENT.repeat(this.depth + 1));
+      result.add(this.newline());
+    }
     return result;
   }
 
+  /**
+   * チャンクの文の並びを出力する。グローバルのフィールド参照のエイリアス
+   * （`MinifierMode.aliasGlobals`）・文字列プールがある場合は、先頭でまとめて宣言する。
+   */
+  private formatChunkBody(body: Parser.Statement[]) {
+    const result = this.joinStatements(body);
+    const names: (SourceNode | string)[] = [];
+    const values: (SourceNode | string)[] = [];
+    this.minifier
+      .globalAliasesOf(this.moduleName)
+      .forEach(({ path, symbol }) => {
+        names.push(this.generateIdentifier(symbol.declaration), this.comma);
+        values.push(
+          this.sourceNodeHelper(symbol.declaration, path),
+          this.comma,
+        );
+      });
+    this.minifier
+      .pooledStringsDeclaredIn(this.moduleName)
+      .forEach(({ name, value, declaration }) => {
+        names.push(this.sourceNodeHelper(declaration, name), this.comma);
+        values.push(
+          this.sourceNodeHelper(
+            declaration,
+            encodeLuaString(value, this.minifier.luaVersion),
+          ),
+          this.comma,
+        );
+      });
+    if (names.length === 0) {
+      return result;
+    }
+    const declaration = this.sourceNodeHelper(undefined, [
+      "local ",
+      this.sourceNodeHelper(undefined, names.slice(0, -1)),
+      this.equals,
+      this.sourceNodeHelper(undefined, values.slice(0, -1)),
+    ]);
+    return this.prependStatement(result, declaration);
+  }
+
   /**
    * SLモード限定: `local x = require("m")` / `x = require("m")` の形（変数1個・
    * 初期化式1個）を、requireを式（IIFE）として埋め込むのではなく、モジュール本体の
@@ -385,6 +580,7 @@ export class MinifyFile {
 
     const spliced = this.minifier.splitModuleForStatementSplice(
       moduleRef.moduleName,
+      this.depth,
     );
     if (!spliced) {
       return undefined;
@@ -397,10 +593,13 @@ export class MinifyFile {
       : this.formatExpression(target);
 
     const result = this.sourceNodeHelper(statement, []);
-    addWithSeparator(result, spliced.statements);
-    addWithSeparator(result, isLocal ? ["local ", targetNode] : [targetNode]);
-    addWithSeparator(result, "=");
-    addWithSeparator(result, spliced.finalExpression);
+    this.append(result, spliced.statements);
+    if (this.pretty && trailingText(result) !== "") {
+      result.add(this.newline());
+    }
+    this.append(result, isLocal ? ["local ", targetNode] : [targetNode]);
+    this.append(result, this.equals);
+    this.append(result, spliced.finalExpression);
     return result;
   }
 
@@ -422,7 +621,7 @@ export class MinifyFile {
     if (!moduleRef || moduleRef.kind !== "require") {
       return undefined;
     }
-    return this.minifier.printModuleInline(moduleRef.moduleName);
+    return this.minifier.printModuleInline(moduleRef.moduleName, this.depth);
   }
 
   private formatStatement(statement: Parser.Statement): SourceNode {
@@ -438,43 +637,23 @@ export class MinifyFile {
     if (statement.type == "AssignmentStatement") {
       // left-hand side
       const variables = statement.variables
-        .map((variable) => [this.formatExpression(variable), ","])
+        .map((variable) => [this.formatExpression(variable), this.comma])
         .flat();
       const inits = statement.init
-        .map((init) => [this.formatExpression(init), ","])
+        .map((init) => [this.formatExpression(init), this.comma])
         .flat();
 
       const result = this.sourceNodeHelper(
         statement,
         this.sourceNodeHelper(undefined, variables.slice(0, -1)),
       );
-      addWithSeparator(result, "=");
-      addWithSeparator(
-        result,
-        this.sourceNodeHelper(undefined, inits.slice(0, -1)),
-      );
+      this.append(result, this.equals);
+      this.append(result, this.sourceNodeHelper(undefined, inits.slice(0, -1)));
       return result;
     } else if (statement.type == "LocalStatement") {
-      const variables = statement.variables
-        .map((variable) => [this.formatExpression(variable), ","])
-        .flat();
-      const result = this.sourceNodeHelper(statement, [
-        "local ",
-        this.sourceNodeHelper(undefined, variables.slice(0, -1)),
-      ]);
-
-      if (statement.init.length) {
-        const inits = statement.init
-          .map((init) => [this.formatExpression(init), ","])
-          .flat();
-
-        addWithSeparator(result, "=");
-        addWithSeparator(
-          result,
-          this.sourceNodeHelper(undefined, inits.slice(0, -1)),
-        );
-      }
-      return result;
+      return this.formatLocalStatements(
+        this.minifier.localRunOf(this.moduleName, statement) ?? [statement],
+      );
     } else if (statement.type == "CallStatement") {
       const bareRequire = this.tryInlineBareRequireStatement(
         statement.expression,
@@ -484,53 +663,62 @@ export class MinifyFile {
       }
       return this.formatExpression(statement.expression); // NOTE: もう一度囲んでもいい
     } else if (statement.type == "IfStatement") {
+      // 条件がコンパイル時定数に決まる節は取り除き、真に決まる節はelse節にする
+      const clauses = foldIfClauses(
+        statement.clauses,
+        (identifier) => this.constantOf(identifier),
+        this.minifier.luaVersion,
+      );
       const result = this.sourceNodeHelper(statement, []);
-      statement.clauses.forEach((clause) => {
+      if (clauses.length === 0) {
+        return result;
+      }
+      if (clauses[0].isElse) {
+        // 最初に残った節の条件が真に決まる場合は、その本体だけを出力する
+        return this.formatUnconditionalBlock(statement, clauses[0].clause.body);
+      }
+      clauses.forEach(({ clause, isElse }, ix) => {
         const clauseMap = this.sourceNodeHelper(clause, []);
-        if (clause.type == "IfClause") {
-          addWithSeparator(clauseMap, "if");
-          addWithSeparator(clauseMap, this.formatExpression(clause.condition));
-          addWithSeparator(clauseMap, "then");
-        } else if (clause.type == "ElseifClause") {
-          addWithSeparator(clauseMap, "elseif");
-          addWithSeparator(clauseMap, this.formatExpression(clause.condition));
-          addWithSeparator(clauseMap, "then");
-        } else {
-          addWithSeparator(clauseMap, "else");
+        if (isElse) {
+          this.append(clauseMap, "else");
+        } else if (clause.type != "ElseClause") {
+          this.append(clauseMap, ix === 0 ? "if" : "elseif");
+          this.append(clauseMap, this.formatExpression(clause.condition));
+          this.append(clauseMap, "then");
         }
-        addWithSeparator(clauseMap, this.formatStatementList(clause.body));
-        addWithSeparator(result, clauseMap);
+        this.append(clauseMap, this.formatStatementList(clause.body));
+        this.append(result, clauseMap);
       });
-      addWithSeparator(result, "end");
+      this.append(result, "end");
       return result;
     } else if (statement.type == "WhileStatement") {
       const result = this.sourceNodeHelper(statement, "while");
-      addWithSeparator(result, this.formatExpression(statement.condition));
-      addWithSeparator(result, "do");
-      addWithSeparator(result, this.formatStatementList(statement.body));
-      addWithSeparator(result, "end");
+      this.append(result, this.formatExpression(statement.condition));
+      this.append(result, "do");
+      this.append(result, this.formatStatementList(statement.body));
+      this.append(result, "end");
       return result;
     } else if (statement.type == "DoStatement") {
       const result = this.sourceNodeHelper(statement, "do");
-      addWithSeparator(result, this.formatStatementList(statement.body));
-      addWithSeparator(result, "end");
+      this.append(result, this.formatStatementList(statement.body));
+      this.append(result, "end");
       return result;
     } else if (statement.type == "ReturnStatement") {
       const result = this.sourceNodeHelper(statement, "return");
       if (statement.arguments.length) {
         const returns = statement.arguments
-          .map((argument) => [this.formatExpression(argument), ","])
+          .map((argument) => [this.formatExpression(argument), this.comma])
           .flat();
-        addWithSeparator(result, returns.slice(0, -1));
+        this.append(result, returns.slice(0, -1));
       }
       return result;
     } else if (statement.type == "BreakStatement") {
       return this.sourceNodeHelper(statement, "break");
     } else if (statement.type == "RepeatStatement") {
       const result = this.sourceNodeHelper(statement, "repeat");
-      addWithSeparator(result, this.formatStatementList(statement.body));
-      addWithSeparator(result, "until");
-      addWithSeparator(result, this.formatExpression(statement.condition));
+      this.append(result, this.formatStatementList(statement.body));
+      this.append(result, "until");
+      this.append(result, this.formatExpression(statement.condition));
       return result;
     } else if (statement.type == "FunctionDeclaration") {
       const result = this.sourceNodeHelper(
@@ -538,9 +726,9 @@ export class MinifyFile {
         (statement.isLocal ? "local " : "") + "function ",
       );
       if (statement.identifier) {
-        addWithSeparator(result, this.formatExpression(statement.identifier));
+        this.append(result, this.formatExpression(statement.identifier));
       }
-      addWithSeparator(result, "(");
+      result.add("(");
 
       if (statement.parameters.length) {
         const parameters = statement.parameters
@@ -549,50 +737,50 @@ export class MinifyFile {
               parameter.type == "Identifier"
                 ? this.generateIdentifier(parameter)
                 : parameter.value,
-              ",",
+              this.comma,
             ];
           })
           .flat();
-        addWithSeparator(result, parameters.slice(0, -1));
+        this.append(result, parameters.slice(0, -1));
       }
 
-      addWithSeparator(result, ")");
-      addWithSeparator(result, this.formatStatementList(statement.body));
-      addWithSeparator(result, "end");
+      this.append(result, ")");
+      this.append(result, this.formatStatementList(statement.body));
+      this.append(result, "end");
       return result;
     } else if (statement.type == "ForGenericStatement") {
       // see also `ForNumericStatement`
       const result = this.sourceNodeHelper(statement, "for");
       const variables = statement.variables
-        .map((variable) => [this.generateIdentifier(variable), ","])
+        .map((variable) => [this.generateIdentifier(variable), this.comma])
         .flat();
       const iterators = statement.iterators
-        .map((iterator) => [this.formatExpression(iterator), ","])
+        .map((iterator) => [this.formatExpression(iterator), this.comma])
         .flat();
-      addWithSeparator(result, variables.slice(0, -1));
-      addWithSeparator(result, "in");
-      addWithSeparator(result, iterators.slice(0, -1));
-      addWithSeparator(result, "do");
-      addWithSeparator(result, this.formatStatementList(statement.body));
-      addWithSeparator(result, "end");
+      this.append(result, variables.slice(0, -1));
+      this.append(result, "in");
+      this.append(result, iterators.slice(0, -1));
+      this.append(result, "do");
+      this.append(result, this.formatStatementList(statement.body));
+      this.append(result, "end");
       return result;
     } else if (statement.type == "ForNumericStatement") {
       // The variables in a `ForNumericStatement` are always local
       const result = this.sourceNodeHelper(statement, "for");
-      addWithSeparator(result, this.generateIdentifier(statement.variable));
-      addWithSeparator(result, "=");
-      addWithSeparator(result, this.formatExpression(statement.start));
-      addWithSeparator(result, ",");
-      addWithSeparator(result, this.formatExpression(statement.end));
+      this.append(result, this.generateIdentifier(statement.variable));
+      this.append(result, this.equals);
+      this.append(result, this.formatExpression(statement.start));
+      this.append(result, this.comma);
+      this.append(result, this.formatExpression(statement.end));
 
       if (statement.step) {
-        addWithSeparator(result, ",");
-        addWithSeparator(result, this.formatExpression(statement.step));
+        this.append(result, this.comma);
+        this.append(result, this.formatExpression(statement.step));
       }
 
-      addWithSeparator(result, "do");
-      addWithSeparator(result, this.formatStatementList(statement.body));
-      addWithSeparator(result, "end");
+      this.append(result, "do");
+      this.append(result, this.formatStatementList(statement.body));
+      this.append(result, "end");
       return result;
     } else if (statement.type == "LabelStatement") {
       // The identifier names in a `LabelStatement` can safely be renamed
@@ -614,6 +802,100 @@ export class MinifyFile {
     }
   }
 
+  /**
+   * 連続する`local`文（結合しない場合は1つ）を1つの`local`文として出力する
+   * （`local a=1 local b` → `local a,b=1`）。末尾の`nil`の初期化式は省く。
+   */
+  private formatLocalStatements(
+    statements: readonly Parser.LocalStatement[],
+  ): SourceNode {
+    const variables: Parser.Identifier[] = [];
+    // 初期化式の無い変数はnilで埋める（複数の値を返しうる式で埋まる変数を除く。
+    // そのような文は並びの最後にしか無い）
+    const inits: (Parser.Expression | undefined)[] = [];
+    statements.forEach((statement) => {
+      variables.push(...statement.variables);
+      inits.push(...statement.init);
+      const last =
+        statement.init.length > 0
+          ? statement.init[statement.init.length - 1]
+          : undefined;
+      if (!last || !isMultiValueExpression(last)) {
+        for (
+          let i = statement.init.length;
+          i < statement.variables.length;
+          i++
+        ) {
+          inits.push(undefined);
+        }
+      }
+    });
+    // 直前の式が複数の値を返しうる場合、nilを省くと足りない変数がその値で埋まる
+    const isNil = (init: Parser.Expression | undefined) =>
+      init === undefined || init.type === "NilLiteral";
+    while (inits.length > 0 && isNil(inits[inits.length - 1])) {
+      const previous = inits.length > 1 ? inits[inits.length - 2] : undefined;
+      if (
+        previous &&
+        isMultiValueExpression(previous) &&
+        inits.length - 1 < variables.length
+      ) {
+        break;
+      }
+      inits.pop();
+    }
+
+    const names = variables
+      .map((variable) => [this.formatExpression(variable), this.comma])
+      .flat();
+    const result = this.sourceNodeHelper(statements[0], [
+      "local ",
+      this.sourceNodeHelper(undefined, names.slice(0, -1)),
+    ]);
+    if (inits.length) {
+      const values = inits
+        .map((init) => [
+          init
+            ? this.formatExpression(init)
+            : this.sourceNodeHelper(undefined, "nil"),
+          this.comma,
+        ])
+        .flat();
+      this.append(result, this.equals);
+      this.append(
+        result,
+        this.sourceNodeHelper(undefined, values.slice(0, -1)),
+      );
+    }
+    return result;
+  }
+
+  /**
+   * 条件が真に決まったif節の本体を出力する。本体で宣言したローカル・ラベルが
+   * 外側のスコープに漏れる場合や、return/break（ブロックの最後にしか置けない）を
+   * 含む場合は`do ... end`で囲み、それ以外は囲まずにそのまま展開する。
+   */
+  private formatUnconditionalBlock(
+    statement: Parser.Statement,
+    body: Parser.Statement[],
+  ): SourceNode {
+    const needsBlock = this.liveStatements(body).some(
+      (s) =>
+        s.type == "LocalStatement" ||
+        (s.type == "FunctionDeclaration" && s.isLocal) ||
+        s.type == "LabelStatement" ||
+        s.type == "ReturnStatement" ||
+        s.type == "BreakStatement",
+    );
+    if (!needsBlock) {
+      return this.sourceNodeHelper(statement, this.joinStatements(body));
+    }
+    const result = this.sourceNodeHelper(statement, "do");
+    this.append(result, this.formatStatementList(body));
+    this.append(result, "end");
+    return result;
+  }
+
   /*function joinStatements(a: string | SourceNode, b: string | SourceNode, separator = " ") {
     return isNeedSeparator(a.toString(), b.toString()) ? a.toString() + separator + b.toString() : a.toString() + b.toString();
 }*/
@@ -621,12 +903,61 @@ export class MinifyFile {
   private formatExpression(
     expression: Parser.Expression,
     argOptions?: ExpressionOptoions,
+  ): SourceNode {
+    const folded = this.minifier.foldedExpressionOf(
+      this.moduleName,
+      expression,
+    );
+    if (folded) {
+      // 畳み込んだ値の方が短く出力される場合に限り置き換える
+      const original = this.formatUnfoldedExpression(expression, argOptions);
+      const replacement = this.formatExpression(folded, argOptions);
+      return replacement.toString().length < original.toString().length
+        ? replacement
+        : original;
+    }
+    return this.formatUnfoldedExpression(expression, argOptions);
+  }
+
+  private formatUnfoldedExpression(
+    expression: Parser.Expression,
+    argOptions?: ExpressionOptoions,
   ): SourceNode {
     if (expression.type == "Identifier") {
+      const constant = this.constantOf(expression);
+      if (constant !== undefined) {
+        return this.formatExpression(
+          constantExpression(constant, expression, this.minifier.luaVersion),
+          argOptions,
+        );
+      }
       return this.generateIdentifier(expression);
+    } else if (expression.type == "NumericLiteral") {
+      return this.sourceNodeHelper(
+        expression,
+        formatNumericLiteral(expression, this.minifier.luaVersion),
+      );
+    } else if (expression.type == "StringLiteral") {
+      const mangled = this.minifier.mangledFieldLiteral(expression);
+      if (mangled !== undefined) {
+        return this.sourceNodeHelper(
+          expression,
+          encodeLuaString(
+            mangled,
+            this.minifier.luaVersion,
+            expression.raw.startsWith("'") ? "'" : '"',
+          ),
+        );
+      }
+      const pooled = this.minifier.pooledStringOf(this.moduleName, expression);
+      if (pooled !== undefined) {
+        return this.sourceNodeHelper(expression, pooled);
+      }
+      return this.sourceNodeHelper(
+        expression,
+        formatStringLiteral(expression.raw, this.minifier.luaVersion),
+      );
     } else if (
-      expression.type == "StringLiteral" ||
-      expression.type == "NumericLiteral" ||
       expression.type == "BooleanLiteral" ||
       expression.type == "NilLiteral" ||
       expression.type == "VarargLiteral"
@@ -637,6 +968,14 @@ export class MinifyFile {
       expression.type == "BinaryExpression"
     ) {
       const operator = expression.operator;
+      if (!isBinaryOperatorSupported(this.minifier.luaVersion, operator)) {
+        throw new TypeError(
+          "Operator `" +
+            operator +
+            "` is not supported in Lua " +
+            this.minifier.luaVersion,
+        );
+      }
       const currentPrecedence = PRECEDENCE[operator];
       let associativity: "left" | "right" = "left";
       const options = {
@@ -669,9 +1008,9 @@ export class MinifyFile {
           [
             "(",
             leftHand,
-            insertSeparator(leftHand, operator),
+            this.operatorSeparator(leftHand, operator),
             operator,
-            insertSeparator(operator, rightHand),
+            this.operatorSeparator(operator, rightHand),
             rightHand,
             ")",
           ].filter((p): p is Exclude<typeof p, undefined> => p !== undefined),
@@ -681,14 +1020,22 @@ export class MinifyFile {
         expression,
         [
           leftHand,
-          insertSeparator(leftHand, operator),
+          this.operatorSeparator(leftHand, operator),
           operator,
-          insertSeparator(operator, rightHand),
+          this.operatorSeparator(operator, rightHand),
           rightHand,
         ].filter((p): p is Exclude<typeof p, undefined> => p !== undefined),
       );
     } else if (expression.type == "UnaryExpression") {
       const operator = expression.operator;
+      if (!isUnaryOperatorSupported(this.minifier.luaVersion, operator)) {
+        throw new TypeError(
+          "Operator `" +
+            operator +
+            "` is not supported in Lua " +
+            this.minifier.luaVersion,
+        );
+      }
       const currentPrecedence = PRECEDENCE["unary" + operator];
       const options = {
         precedence: 0,
@@ -700,7 +1047,7 @@ export class MinifyFile {
       });
       const result = this.sourceNodeHelper(
         expression,
-        [operator, insertSeparator(operator, p2), p2].filter(
+        [operator, insertSeparator(operator, p2, " ", this.pretty), p2].filter(
           (p): p is Exclude<typeof p, undefined> => p !== undefined,
         ),
       );
@@ -728,7 +1075,7 @@ export class MinifyFile {
         }
       }
       const args = expression.arguments
-        .map((arg) => [this.formatExpression(arg), ","])
+        .map((arg) => [this.formatExpression(arg), this.comma])
         .flat();
       return this.sourceNodeHelper(expression, [
         this.formatBase(expression.base),
@@ -749,11 +1096,26 @@ export class MinifyFile {
           return replacement;
         }
       }
+      const argument = this.formatExpression(expression.argument);
+      // 文字列プールのローカルに置き換わる引数は、括弧付きの呼び出しにする
+      const isPooled =
+        expression.argument.type == "StringLiteral" &&
+        this.minifier.pooledStringOf(this.moduleName, expression.argument) !==
+          undefined;
       return this.sourceNodeHelper(expression, [
         this.formatExpression(expression.base),
-        this.formatExpression(expression.argument),
+        ...(isPooled ? ["(", argument, ")"] : [argument]),
       ]);
     } else if (expression.type == "IndexExpression") {
+      // `t["field"]`は`t.field`にする
+      const name = identifierKeyOf(expression.index);
+      if (name !== undefined) {
+        return this.sourceNodeHelper(expression, [
+          this.formatBase(expression.base),
+          ".",
+          this.formatFieldName(expression.index, name),
+        ]);
+      }
       return this.sourceNodeHelper(expression, [
         this.formatBase(expression.base),
         "[",
@@ -761,12 +1123,14 @@ export class MinifyFile {
         "]",
       ]);
     } else if (expression.type == "MemberExpression") {
+      const alias = this.minifier.globalAliasOf(this.moduleName, expression);
+      if (alias) {
+        return this.generateIdentifier(alias);
+      }
       return this.sourceNodeHelper(expression, [
         this.formatBase(expression.base),
         expression.indexer,
-        this.formatExpression(expression.identifier, {
-          preserveIdentifiers: true,
-        }),
+        this.formatFieldName(expression.identifier, expression.identifier.name),
       ]);
     } else if (expression.type == "FunctionDeclaration") {
       const result = this.sourceNodeHelper(expression, ["function", "("]);
@@ -781,38 +1145,56 @@ export class MinifyFile {
                   ? this.generateIdentifier(parameter)
                   : parameter.value,
               ),
-              ",",
+              this.comma,
             ];
           })
           .flat();
-        addWithSeparator(result, parameters.slice(0, -1));
+        this.append(result, parameters.slice(0, -1));
       }
       result.add(")");
       const body = this.formatStatementList(expression.body);
-      addWithSeparator(result, body);
-      addWithSeparator(result, "end");
+      this.append(result, body);
+      this.append(result, "end");
       return result;
     } else if (expression.type == "TableConstructorExpression") {
       const result = this.sourceNodeHelper(expression, "{");
+      // `{[1]=a,[2]=b}`は`{a,b}`にする
+      const positional = positionalFieldsOf(expression);
       const fields = expression.fields
         .map((field, ix, ar) => {
           // Stormworks "propert" Trailing Comma: https://nona-takahara.github.io/blog/entry11.html
           const comma =
-            ix !== ar.length - 1 ||
-            this.formatExpression(field.value).toString().includes("property")
-              ? ","
-              : undefined;
+            ix !== ar.length - 1
+              ? this.comma
+              : this.formatExpression(field.value)
+                    .toString()
+                    .includes("property")
+                ? ","
+                : undefined;
 
-          if (field.type == "TableKey") {
+          if (field.type == "TableKey" && positional.has(field)) {
+            return this.sourceNodeHelper(
+              field,
+              [this.formatExpression(field.value), comma].filter(
+                (p): p is Exclude<typeof p, undefined> => p !== undefined,
+              ),
+            );
+          } else if (field.type == "TableKey") {
+            // `{["field"]=v}`は`{field=v}`にする
+            const name = identifierKeyOf(field.key);
+            const key =
+              name !== undefined
+                ? this.formatFieldName(field.key, name)
+                : this.sourceNodeHelper(undefined, [
+                    "[",
+                    this.formatExpression(field.key),
+                    "]",
+                  ]);
             return this.sourceNodeHelper(
               field,
               [
-                this.sourceNodeHelper(undefined, [
-                  "[",
-                  this.formatExpression(field.key),
-                  "]",
-                ]),
-                "=",
+                key,
+                this.equals,
                 this.formatExpression(field.value),
                 comma,
               ].filter(
@@ -829,8 +1211,8 @@ export class MinifyFile {
             return this.sourceNodeHelper(
               field,
               [
-                this.formatExpression(field.key, { preserveIdentifiers: true }),
-                "=",
+                this.formatFieldName(field.key, field.key.name),
+                this.equals,
                 this.formatExpression(field.value),
                 comma,
               ].filter(
@@ -840,8 +1222,8 @@ export class MinifyFile {
           }
         })
         .flat();
-      addWithSeparator(result, fields);
-      addWithSeparator(result, "}");
+      this.append(result, fields);
+      this.append(result, "}");
       return result;
     } else {
       throw TypeError(
@@ -851,18 +1233,35 @@ export class MinifyFile {
   }
 
   private formatBase(base: Parser.Expression): SourceNode {
-    const type = base.type;
+    // コンパイル時定数に置き換わる参照は、置き換え後の式として括弧の要否を判定する
+    const constant =
+      base.type == "Identifier" ? this.constantOf(base) : undefined;
+    // 文字列プールのローカルに置き換わるリテラルは識別子として扱う
+    const isPooled =
+      base.type == "StringLiteral" &&
+      this.minifier.pooledStringOf(this.moduleName, base) !== undefined;
+    const type =
+      constant !== undefined
+        ? constantExpression(constant, base, this.minifier.luaVersion).type
+        : isPooled
+          ? "Identifier"
+          : base.type;
     const needsParens =
       type == "CallExpression" ||
       type == "BinaryExpression" ||
       type == "FunctionDeclaration" ||
       type == "TableConstructorExpression" ||
       type == "LogicalExpression" ||
-      type == "StringLiteral";
+      type == "UnaryExpression" ||
+      type == "StringLiteral" ||
+      type == "NumericLiteral" ||
+      type == "BooleanLiteral" ||
+      type == "NilLiteral" ||
+      type == "VarargLiteral";
     const result = this.sourceNodeHelper(base, this.formatExpression(base));
     if (needsParens) {
-      prependWithSeparator(result, "(");
-      addWithSeparator(result, ")");
+      this.prepend(result, "(");
+      this.append(result, ")");
     }
     return result;
   }
@@ -880,7 +1279,7 @@ export class MinifyFile {
     if (base.name !== "require" && base.name !== "dofile") {
       return undefined;
     }
-    const moduleName = staticStringArgument(argument);
+    const moduleName = staticStringArgument(argument, this.minifier.luaVersion);
     if (moduleName === undefined) {
       return undefined;
     }
@@ -906,13 +1305,24 @@ export class MinifyFile {
   ): SourceNode | undefined {
     if (ref.kind === "dofile") {
       // dofileは呼び出しごとに毎回展開しなおす（キャッシュしない）
-      return this.minifier.printModuleInline(ref.moduleName);
+      return this.minifier.printModuleInline(ref.moduleName, this.depth);
     }
 
     if (!this.mode.moduleLikeLua) {
       // SLモード（無オプション）: requireもキャッシュせずその場展開する
       // （挙動互換性のため、ホイストした共有ローカルへの参照にはしない）。
       // 式の位置に置けるようにIIFEで包む。
+      if (this.pretty) {
+        const body = this.minifier.printModuleInline(
+          ref.moduleName,
+          this.depth + 1,
+        );
+        return this.sourceNodeHelper(expression, [
+          "(function()" + "\n" + INDENT.repeat(this.depth + 1),
+          body,
+          this.newline() + "end)()",
+        ]);
+      }
       const body = this.minifier.printModuleInline(ref.moduleName);
       return this.sourceNodeHelper(expression, [
         "(function() ",
@@ -925,8 +1335,29 @@ export class MinifyFile {
     return undefined;
   }
 
+  // DCEで取り除いた文を除く
+  private liveStatements(body: Parser.Statement[]): Parser.Statement[] {
+    return body.filter(
+      (statement) => !this.minifier.isDeadCode(this.moduleName, statement),
+    );
+  }
+
+  private constantOf(identifier: Parser.Identifier) {
+    return this.minifier.constantOf(this.moduleName, identifier);
+  }
+
   // Renameパス（#20）が解決済みシンボルテーブルをもとに割り当てた短縮名を参照する。
   // 対応するローカルシンボルが無い場合（グローバル参照や"self"）は元の名前のまま出力する。
+  // フィールド名（`.field`・`{field=...}`のキー、`t["field"]`から書き換えたものを
+  // 含む）。短縮する場合は短縮名にする
+  private formatFieldName(node: Parser.Node, name: string): SourceNode {
+    return this.sourceNodeHelper(
+      node,
+      this.minifier.mangledFieldName(name) ?? name,
+      name,
+    );
+  }
+
   private generateIdentifier(nameItem: Parser.Identifier): SourceNode {
     const renamed = this.minifier
       .getRenameResult(this.moduleName)
@@ -0,0 +1,64 @@
+import { SourceNode } from "source-map";
+
+// 出力のどのモジュールにも対応しない文字（-mモードのrequireラッパー、
+// sourceMappingURLアノテーションなど）の集計キー
+export const UNMAPPED_SOURCE = "(unmapped)";
+
+export interface SizeBreakdown {
+  // 出力全体の文字数
+  readonly total: number;
+  // 由来ファイル（Source Mapの`sources`と同じ名前）ごとの出力文字数
+  readonly bySource: ReadonlyMap<string, number>;
+}
+
+// 文字数はUTF-16のコードユニットではなくコードポイント単位で数える
+// （サロゲートペアを1文字として数える）。
+export function countChars(text: string): number {
+  return Array.from(text).length;
+}
+
+/**
+ * SourceNodeが出力する文字列を、各断片の由来ファイル（SourceNodeのsource）ごとに
+ * 集計する。printerはモジュール内で生成するすべてのSourceNodeにそのモジュールの
+ * ファイル名を設定するため、SLモードでその場展開されたモジュールの文字数も
+ * 展開先ではなく展開されたモジュール側に計上される。
+ */
+export function measureOutputSize(sourceNode: SourceNode): SizeBreakdown {
+  const bySource = new Map<string, number>();
+  let total = 0;
+  sourceNode.walk((chunk, mapping) => {
+    const chars = countChars(chunk);
+    // 型定義上はstringだが、sourceを持たないSourceNode直下の断片ではnullになる
+    const source = (mapping.source as string | null) ?? UNMAPPED_SOURCE;
+    bySource.set(source, (bySource.get(source) ?? 0) + chars);
+    total += chars;
+  });
+  return { total, bySource };
+}
+
+/**
+ * 文字数の内訳を、多い順に並べた表形式の文字列にする。
+ * 予算超過時にどのモジュールを削るべきか判断できるようにするためのもの。
+ */
+export function formatBudgetReport(
+  fileName: string,
+  breakdown: SizeBreakdown,
+  maxChars: number,
+): string {
+  const over = breakdown.total - maxChars;
+  const lines = [
+    fileName +
+      ": " +
+      String(breakdown.total) +
+      " / " +
+      String(maxChars) +
+      " characters" +
+      (over > 0 ? " (" + String(over) + " over budget)" : ""),
+  ];
+  const entries = [...breakdown.bySource].sort((a, b) => b[1] - a[1]);
+  const width = Math.max(...entries.map(([source]) => source.length));
+  entries.forEach(([source, chars]) => {
+    lines.push("  " + source.padEnd(width) + "  " + String(chars));
+  });
+  return lines.join("\n");
+}
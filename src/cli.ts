@@ -2,21 +2,64 @@
 
 import fs from "fs";
 import path from "path";
-import { Command } from "commander";
-import { Options } from "luaparse";
-import { Minifier, MinifierMode } from "./minifier";
+import { Command, InvalidArgumentError, Option } from "commander";
+import { RawSourceMap } from "source-map";
+import {
+  DEFAULT_LUAPARSE_SETTINGS,
+  Minifier,
+  MinifierMode,
+  ParseCache,
+  parseSearchPath,
+} from "./minifier";
 import { buildMinifiedOutput, SourceMappingUrlStyle } from "./output";
+import { formatBudgetReport, measureOutputSize } from "./budget";
+import { LUA_VERSIONS, LuaVersion } from "./luaversion";
+import { watchBuild } from "./watch";
+import {
+  BuildOptions,
+  BuildTarget,
+  CONFIG_FILE_NAME,
+  defaultOutputPaths,
+  findConfigFile,
+  loadConfig,
+  mergeBuildOptions,
+} from "./config";
+import { Defines, parseDefine } from "./defines";
+import { expandDropCalls, formatDeadCodeReport } from "./dce";
+import { loadNameCache } from "./namecache";
+import { NameMap, nameMapPath } from "./names";
+import { traceErrorText } from "./trace";
+
+// 正規表現を受け取るオプションの値を、ビルドを始める前に検証する
+function parseRegExpSource(value: string): string {
+  try {
+    new RegExp(value);
+  } catch (e) {
+    throw new InvalidArgumentError(e instanceof Error ? e.message : String(e));
+  }
+  return value;
+}
 
 const program = new Command();
 
 program
   .version("0.1.3")
   .description("A Lua minifier also outputs source map")
+  .argument(
+    "[files...]",
+    "minifyするエントリファイル。省略時は設定ファイル(" +
+      CONFIG_FILE_NAME +
+      ")の全エントリをビルドします",
+  )
   .option(
     "-m, --module-like-lua",
     "require・dofileの動作を実際のLuaに近づけます",
   )
   .option("--no-rename", "識別子の短縮(リネーム)を無効にします（デバッグ用途）")
+  .option(
+    "--pretty",
+    "ブロックごとに字下げし、1行に1文・演算子の前後に空白を入れた読みやすい形で出力します。--no-renameと組み合わせると、結合後のコードの確認に使えます",
+  )
   .option(
     "--single-line-source-mapping-url",
     "sourceMappingURLアノテーションを単一行の--コメントで出力します（Source Map仕様の「最終行」ルールに従いますが、既定の複数行ブロックコメント形式を前提とするツールとは組み合わせられません）",
@@ -24,30 +67,160 @@ program
   .option(
     "--strict-source-mapping-url",
     "sourceMappingURLアノテーションをLuaコメントで一切包まず、Source Map仕様のマーカー文字列(//# sourceMappingURL=...)そのままを出力します。Luaの文法上この形式と有効なLuaコードは両立できないため、出力ファイルの最終行は有効なLua文ではなくなります",
+  )
+  .option(
+    "--search-path <templates>",
+    'require・dofileのモジュールを探すパスのテンプレート。package.pathと同じ形式で";"区切りで複数指定でき、エントリファイルのディレクトリを基準に先頭から順に探します（例: "?.lua;?/init.lua;../shared/?.lua"）',
+    parseSearchPath,
+  )
+  .addOption(
+    new Option(
+      "--lua-version <version>",
+      "対象のLuaバージョン。パースと出力の両方に使い、このバージョンに無い構文はエラーにします",
+    )
+      .choices(LUA_VERSIONS)
+      .default("5.3"),
+  )
+  .option(
+    "-D, --define <name=value>",
+    "グローバル変数をコンパイル時定数として扱い、参照を値に置き換えます。条件が定数に決まるif節は出力から取り除きます（例: -D DEBUG=false）。複数回指定できます",
+    (value: string, previous: Defines) => {
+      try {
+        const [name, constant] = parseDefine(value);
+        return { ...previous, [name]: constant };
+      } catch (e) {
+        throw new InvalidArgumentError(
+          e instanceof Error ? e.message : String(e),
+        );
+      }
+    },
+  )
+  .option(
+    "--alias-globals",
+    "繰り返し参照されるグローバルのフィールド（screen.drawRect・math.floorなど）を、チャンクの先頭で短い名前のローカルに代入して参照を置き換えます。どこからも代入されないグローバルに限ります",
+  )
+  .option(
+    "--mangle-fields <pattern>",
+    'パターン（正規表現）に一致するテーブルのフィールド名（.field・:method・{field=...}・t["field"]）を、全モジュールで一貫して短い名前に置き換えます（例: "^_"）。Stormworks API・標準ライブラリのフィールドは置き換えません',
+    parseRegExpSource,
+  )
+  .option(
+    "--reserve <names>",
+    'ローカル変数の短縮名に使わない名前（","区切り）。実行時に注入されるコードが使うグローバルなどを指定します。複数回指定できます',
+    (value: string, previous: string[] | undefined) => [
+      ...(previous ?? []),
+      ...value.split(",").filter((name) => name !== ""),
+    ],
+  )
+  .option(
+    "--keep-names <pattern>",
+    "パターン（正規表現）に一致するローカル変数・ローカル関数の名前を短縮せず、元の名前のまま出力します（エラーメッセージを読みやすくするためなど）",
+    parseRegExpSource,
+  )
+  .option(
+    "--drop-calls <paths>",
+    '文ごと取り除く関数の呼び出し（","区切り）。グローバル変数（debug.log・print）か、requireしたモジュールのメンバー（log.trace）のパスを指定し、引数ごと出力から取り除きます。"@stormworks"でdebug.logを取り除きます。複数回指定できます',
+    (value: string, previous: string[] | undefined) => {
+      const paths = value.split(",").filter((path) => path !== "");
+      try {
+        expandDropCalls(paths);
+      } catch (e) {
+        throw new InvalidArgumentError(
+          e instanceof Error ? e.message : String(e),
+        );
+      }
+      return [...(previous ?? []), ...paths];
+    },
+  )
+  .option(
+    "--max-chars <n>",
+    "出力(.min.lua)の文字数の上限。超えた場合はモジュールごとの文字数の内訳を表示し、終了コード1で終了します",
+    (value: string) => {
+      const n = Number(value);
+      if (!Number.isInteger(n) || n <= 0) {
+        throw new InvalidArgumentError("正の整数を指定してください");
+      }
+      return n;
+    },
+  )
+  .option(
+    "--name-cache <file>",
+    "短縮名の割り当てをJSONファイルに保存し、次回のビルドで同じ名前を優先して使います。参照の増減で出力全体の名前が入れ替わらないため、コミットした出力の差分が読みやすくなります",
+  )
+  .option(
+    "-c, --config <file>",
+    "設定ファイルのパス（省略時はカレントディレクトリの" +
+      CONFIG_FILE_NAME +
+      "）",
+  )
+  .option(
+    "-v, --verbose",
+    "不要コードの除去（到達しない文・読まれないローカルなど）で取り除いたコードとその位置を表示します",
+  )
+  .option(
+    "-w, --watch",
+    "require・dofileで読み込まれた全ファイルを監視し、変更があるたびに再ビルドします",
   );
 
+// サブコマンドを指定しない場合はビルドする
+// （actionの中で代入するため、型を狭めないようbooleanとして宣言する）
+let buildRequested = false as boolean;
+program.action(() => {
+  buildRequested = true;
+});
+
+program
+  .command("trace")
+  .description(
+    "minify後のコードで報告された実行時エラー・スタックトレースの位置と短縮名を、Source Mapで元のファイル・行・列と元の名前に書き換えます。.mapと同じ場所に.names.jsonがあれば、それを使って名前を引きます",
+  )
+  .argument("<map>", "minify後のコードのSource Map（.map）")
+  .argument("[text]", "エラーメッセージ。省略時は標準入力から読みます")
+  .action(async (mapPath: string, text: string | undefined) => {
+    try {
+      const map = JSON.parse(
+        fs.readFileSync(mapPath).toString(),
+      ) as RawSourceMap;
+      const namesPath = nameMapPath(mapPath);
+      const names = fs.existsSync(namesPath)
+        ? (JSON.parse(fs.readFileSync(namesPath).toString()) as NameMap)
+        : undefined;
+      const input = text ?? fs.readFileSync(0).toString();
+      process.stdout.write(await traceErrorText(input, map, names));
+    } catch (e) {
+      console.error(e instanceof Error ? e.message : String(e));
+      process.exitCode = 1;
+    }
+  });
+
 program.parse(process.argv);
 
 const luaFiles = program.args;
 
-const luaparseSetting: Partial<Options> = {
-  locations: true,
-  luaVersion: "5.3",
-  ranges: true,
-  scope: true,
-};
-
 interface CliOptions extends MinifierMode {
   singleLineSourceMappingUrl?: boolean;
   strictSourceMappingUrl?: boolean;
+  watch?: boolean;
+  verbose?: boolean;
+  maxChars?: number;
+  luaVersion: LuaVersion;
+  config?: string;
+  define?: Defines;
+  nameCache?: string;
 }
 
 const {
   singleLineSourceMappingUrl,
   strictSourceMappingUrl,
-  ...mode
+  watch,
+  verbose,
+  config,
+  define,
+  ...cliModeOptions
 }: CliOptions = program.opts();
 
+const cliBuildOptions: BuildOptions = { ...cliModeOptions, defines: define };
+
 // 既定は旧バージョンと互換の複数行ブロックコメント("legacy")。
 // --strict-source-mapping-url > --single-line-source-mapping-url の優先順で上書きする。
 const sourceMappingUrlStyle: SourceMappingUrlStyle = strictSourceMappingUrl
@@ -56,31 +229,130 @@ const sourceMappingUrlStyle: SourceMappingUrlStyle = strictSourceMappingUrl
     ? "line"
     : "legacy";
 
-luaFiles.forEach((fileName) => {
-  const parsedFileName = path.parse(fileName);
-
-  if (fs.existsSync(fileName)) {
-    const map = new Minifier(fileName, luaparseSetting, mode).parse();
-    const minFileName = path.format({
-      dir: parsedFileName.dir,
-      name: parsedFileName.name + ".min",
-      ext: ".lua",
-    });
-    const mapFileName = path.format({
-      dir: parsedFileName.dir,
-      name: parsedFileName.name,
-      ext: parsedFileName.ext + ".map",
-    });
-    const { code, map: mapJson } = buildMinifiedOutput(
-      map,
-      minFileName,
-      mapFileName,
-      { sourceMappingUrlStyle },
+/**
+ * コマンドラインで明示的に指定されたビルドオプションだけを取り出す。
+ * 設定ファイルのエントリに対しては、これらが設定ファイルの指定より優先する。
+ */
+function explicitCliOptions(): BuildOptions {
+  const explicit: Record<string, unknown> = {};
+  Object.entries(cliModeOptions).forEach(([key, value]) => {
+    if (program.getOptionValueSource(key) === "cli") {
+      explicit[key] = value;
+    }
+  });
+  if (define) {
+    explicit.defines = define;
+  }
+  if (strictSourceMappingUrl || singleLineSourceMappingUrl) {
+    explicit.sourceMappingUrlStyle = sourceMappingUrlStyle;
+  }
+  return explicit;
+}
+
+function resolveTargets(): BuildTarget[] {
+  if (luaFiles.length > 0) {
+    return luaFiles.map((fileName) => ({
+      entry: fileName,
+      ...defaultOutputPaths(fileName),
+      options: { ...cliBuildOptions, sourceMappingUrlStyle },
+    }));
+  }
+  const configPath = config ?? findConfigFile(process.cwd());
+  if (configPath === undefined) {
+    return program.error(
+      "No input files and no " + CONFIG_FILE_NAME + " in the current directory",
     );
+  }
+  const overrides = explicitCliOptions();
+  return loadConfig(configPath).map((target) => ({
+    ...target,
+    options: mergeBuildOptions(target.options, overrides),
+  }));
+}
 
-    fs.writeFileSync(minFileName, code);
-    fs.writeFileSync(mapFileName, mapJson);
-  } else {
-    console.error("No such file: " + fileName);
+// 同じ実行でビルドする全エントリで共有し、共有モジュールを一度だけパースする
+const parseCache = new ParseCache();
+
+function createMinifier(target: BuildTarget): Minifier {
+  const { luaVersion = "5.3", nameCache, ...mode } = target.options;
+  return new Minifier(
+    target.entry,
+    { ...DEFAULT_LUAPARSE_SETTINGS, luaVersion },
+    { moduleLikeLua: false, ...mode },
+    undefined,
+    parseCache,
+    nameCache !== undefined ? loadNameCache(nameCache) : undefined,
+  );
+}
+
+/**
+ * エントリファイル1つをビルドし、.min.luaと.mapを書き出す。
+ * 戻り値はビルドが読み込んだファイルパスの一覧（watchモードの監視対象）。
+ */
+function build(target: BuildTarget, minifier: Minifier): string[] {
+  const { sourceMappingUrlStyle, maxChars } = target.options;
+  const map = minifier.parse();
+  const { code, map: mapJson } = buildMinifiedOutput(
+    map,
+    target.output,
+    target.map,
+    { sourceMappingUrlStyle },
+  );
+
+  fs.mkdirSync(path.dirname(target.output), { recursive: true });
+  fs.mkdirSync(path.dirname(target.map), { recursive: true });
+  fs.writeFileSync(target.output, code);
+  fs.writeFileSync(target.map, mapJson);
+  fs.writeFileSync(
+    nameMapPath(target.map),
+    JSON.stringify(minifier.nameMap(path.basename(target.output)), null, 2) +
+      "\n",
+  );
+  if (target.options.nameCache !== undefined && minifier.nameCache) {
+    fs.mkdirSync(path.dirname(target.options.nameCache), { recursive: true });
+    fs.writeFileSync(target.options.nameCache, minifier.nameCache.stringify());
   }
-});
+
+  if (verbose) {
+    const removals = minifier.deadCodeRemovals();
+    if (removals.length > 0) {
+      console.error(formatDeadCodeReport(removals));
+    }
+  }
+
+  if (maxChars !== undefined) {
+    // buildMinifiedOutputが付加したsourceMappingURLアノテーションも含めた、
+    // 実際に書き出した出力全体の文字数で判定する。
+    const breakdown = measureOutputSize(map);
+    if (breakdown.total > maxChars) {
+      console.error(formatBudgetReport(target.output, breakdown, maxChars));
+      process.exitCode = 1;
+    }
+  }
+  return minifier.linkedFilePaths();
+}
+
+if (buildRequested) {
+  resolveTargets().forEach((target) => {
+    if (watch) {
+      // パースエラー等でビルドに失敗しても監視は続け、修正されたら再ビルドする。
+      // 失敗時もLinkパスがそこまでに読み込もうとしたファイル（エントリを含む）は
+      // 監視対象に残す。
+      watchBuild(() => {
+        const minifier = createMinifier(target);
+        try {
+          const files = build(target, minifier);
+          console.log("Built: " + target.entry);
+          return files;
+        } catch (e) {
+          console.error(e instanceof Error ? e.message : String(e));
+          return minifier.linkedFilePaths();
+        }
+      });
+    } else if (fs.existsSync(target.entry)) {
+      build(target, createMinifier(target));
+    } else {
+      console.error("No such file: " + target.entry);
+    }
+  });
+}
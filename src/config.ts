@@ -0,0 +1,238 @@
+// プロジェクト設定ファイル（storm-lua-minify.config.json）の読み込み。
+// 1つのリポジトリから複数のスクリプトをビルドするために、エントリごとの
+// オプション・出力先と、全エントリ共通の既定値をまとめて記述する。
+//
+// {
+//   "defaults": { "moduleLikeLua": true, "searchPath": "?.lua;../shared/?.lua" },
+//   "entries": [
+//     { "entry": "src/radar.lua", "output": "dist/radar.min.lua" },
+//     { "entry": "src/engine.lua", "rename": false }
+//   ]
+// }
+//
+// パスはすべて設定ファイルのあるディレクトリを基準にする。
+import fs from "fs";
+import path from "path";
+import { MinifierMode, parseSearchPath } from "./minifier";
+import { LUA_VERSIONS, LuaVersion } from "./luaversion";
+import { SourceMappingUrlStyle } from "./output";
+import { isLuaConstant } from "./defines";
+import { expandDropCalls } from "./dce";
+
+export const CONFIG_FILE_NAME = "storm-lua-minify.config.json";
+
+// エントリごとに指定できるビルドオプション（CLIのオプションと対応する）
+export interface BuildOptions extends Partial<MinifierMode> {
+  luaVersion?: LuaVersion;
+  sourceMappingUrlStyle?: SourceMappingUrlStyle;
+  maxChars?: number;
+  // 短縮名のキャッシュファイル（--name-cache）
+  nameCache?: string;
+}
+
+export interface BuildTarget {
+  entry: string;
+  // .min.luaの出力先
+  output: string;
+  // Source Mapの出力先
+  map: string;
+  options: BuildOptions;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+const isBoolean = (value: unknown) => typeof value === "boolean";
+const isStringArray = (value: unknown) =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+function isRegExpSource(value: string): boolean {
+  try {
+    new RegExp(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 設定ファイルに書けるオプションと、その値の検証。未知のキーは綴り間違いの
+// 可能性が高いため無視せずエラーにする。
+const OPTION_VALIDATORS: Record<
+  keyof BuildOptions,
+  (value: unknown) => boolean
+> = {
+  moduleLikeLua: isBoolean,
+  rename: isBoolean,
+  searchPath: (value) => typeof value === "string" || isStringArray(value),
+  luaVersion: (value) => LUA_VERSIONS.includes(value as LuaVersion),
+  sourceMappingUrlStyle: (value) =>
+    value === "legacy" || value === "line" || value === "strict",
+  maxChars: (value) => Number.isInteger(value) && (value as number) > 0,
+  // JSONのnullはLuaのnilとして扱う
+  defines: (value) =>
+    isObject(value) && Object.values(value).every(isLuaConstant),
+  aliasGlobals: isBoolean,
+  nameCache: (value) => typeof value === "string",
+  // 正規表現のソース、またはフィールド名の一覧
+  mangleFields: (value) =>
+    (typeof value === "string" && isRegExpSource(value)) ||
+    isStringArray(value),
+  reserve: isStringArray,
+  dropCalls: (value) => isStringArray(value) && isDropCallList(value),
+  pretty: isBoolean,
+  // 正規表現のソース、またはモジュールのファイル名ごとの正規表現のソース
+  keepNames: (value) =>
+    (typeof value === "string" && isRegExpSource(value)) ||
+    (isObject(value) &&
+      Object.values(value).every(
+        (v) => typeof v === "string" && isRegExpSource(v),
+      )),
+};
+
+function isDropCallList(value: string[]): boolean {
+  try {
+    expandDropCalls(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const ENTRY_KEYS = ["entry", "output", "map"];
+
+/**
+ * `base`の上に`override`を重ねる。definesは置き換えずに名前ごとに重ねる
+ * （defaultsで定義した定数の一部だけをエントリで上書きできるように）。
+ */
+export function mergeBuildOptions(
+  base: BuildOptions,
+  override: BuildOptions,
+): BuildOptions {
+  const merged = { ...base, ...override };
+  if (base.defines && override.defines) {
+    merged.defines = { ...base.defines, ...override.defines };
+  }
+  return merged;
+}
+
+/**
+ * CLIでエントリファイルを直接指定した場合と同じ出力先
+ * （main.lua → main.min.lua, main.lua.map）を求める。
+ */
+export function defaultOutputPaths(entry: string): {
+  output: string;
+  map: string;
+} {
+  const parsed = path.parse(entry);
+  return {
+    output: path.format({
+      dir: parsed.dir,
+      name: parsed.name + ".min",
+      ext: ".lua",
+    }),
+    map: path.format({
+      dir: parsed.dir,
+      name: parsed.name,
+      ext: parsed.ext + ".map",
+    }),
+  };
+}
+
+/**
+ * `dir`に設定ファイルがあればそのパスを返す。
+ */
+export function findConfigFile(dir: string): string | undefined {
+  const configPath = path.join(dir, CONFIG_FILE_NAME);
+  return fs.existsSync(configPath) ? configPath : undefined;
+}
+
+function parseBuildOptions(
+  value: Record<string, unknown>,
+  where: string,
+  allowedExtraKeys: string[] = [],
+): BuildOptions {
+  const options: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, v]) => {
+    if (allowedExtraKeys.includes(key)) {
+      return;
+    }
+    if (!(key in OPTION_VALIDATORS)) {
+      throw new Error(where + ': unknown option "' + key + '"');
+    }
+    if (!OPTION_VALIDATORS[key as keyof BuildOptions](v)) {
+      throw new Error(
+        where + ': invalid value for "' + key + '": ' + JSON.stringify(v),
+      );
+    }
+    options[key] =
+      key === "searchPath" && typeof v === "string" ? parseSearchPath(v) : v;
+  });
+  return options;
+}
+
+/**
+ * 設定ファイルを読み込み、エントリごとのビルド対象を返す。エントリのオプションは
+ * `defaults`の上にエントリ自身の指定を重ねたものになる。
+ */
+export function loadConfig(configPath: string): BuildTarget[] {
+  const baseDir = path.dirname(configPath);
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(configPath).toString());
+  } catch (e) {
+    throw new Error(
+      configPath + ": " + (e instanceof Error ? e.message : String(e)),
+    );
+  }
+  if (!isObject(json)) {
+    throw new Error(configPath + ": the config must be a JSON object");
+  }
+  Object.keys(json).forEach((key) => {
+    if (key !== "defaults" && key !== "entries") {
+      throw new Error(configPath + ': unknown key "' + key + '"');
+    }
+  });
+
+  const { defaults = {}, entries } = json;
+  if (!isObject(defaults)) {
+    throw new Error(configPath + ': "defaults" must be an object');
+  }
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error(configPath + ': "entries" must be a non-empty array');
+  }
+  const sharedOptions = parseBuildOptions(defaults, configPath + ": defaults");
+
+  return entries.map((entryConfig: unknown, ix) => {
+    const where = configPath + ": entries[" + String(ix) + "]";
+    if (!isObject(entryConfig) || typeof entryConfig.entry !== "string") {
+      throw new Error(where + ': "entry" must be a string');
+    }
+    ["output", "map"].forEach((key) => {
+      if (key in entryConfig && typeof entryConfig[key] !== "string") {
+        throw new Error(where + ': "' + key + '" must be a string');
+      }
+    });
+    const entry = path.join(baseDir, entryConfig.entry);
+    const defaultPaths = defaultOutputPaths(entry);
+    const options = mergeBuildOptions(
+      sharedOptions,
+      parseBuildOptions(entryConfig, where, ENTRY_KEYS),
+    );
+    if (options.nameCache !== undefined) {
+      options.nameCache = path.join(baseDir, options.nameCache);
+    }
+    return {
+      entry,
+      output:
+        typeof entryConfig.output === "string"
+          ? path.join(baseDir, entryConfig.output)
+          : defaultPaths.output,
+      map:
+        typeof entryConfig.map === "string"
+          ? path.join(baseDir, entryConfig.map)
+          : defaultPaths.map,
+      options,
+    };
+  });
+}
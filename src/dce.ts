@@ -0,0 +1,407 @@
+// 不要コードの除去（DCE）。Resolveパスのシンボル表をもとに、出力しても意味の無い
+// 文を求める。
+// - return/break/gotoの後の到達しない文（次のラベルまで）
+// - 条件が偽に決まるwhile文・if文の節
+// - 読まれないローカル（とそれへの代入）・呼ばれないローカル関数
+// - 取り除く呼び出しの一覧（--drop-calls）に一致する関数を呼ぶ文（引数ごと）
+//
+// 初期化式・代入する式に副作用が無いと確かめられる場合に限り取り除く。
+// ASTは複数のMinifier（ParseCache）で共有されるため変更せず、除去はprinter
+// （MinifyFile）が出力時に行う。
+import Parser from "luaparse";
+import { Chunk } from "./ast2lua";
+import { LuaConstant } from "./defines";
+import { evaluateConstant, foldIfClauses } from "./folding";
+import { moduleCallArgument, staticStringArgument, walk } from "./linker";
+import { LuaVersion } from "./luaversion";
+import { ResolveResult, Symbol } from "./resolver";
+
+export interface DeadCodeRemoval {
+  // 取り除いた文（またはif文の節）
+  readonly node: Parser.Node;
+  readonly description: string;
+}
+
+export interface DeadCode {
+  // 出力しない文・if文の節
+  readonly nodes: ReadonlySet<Parser.Node>;
+  // ソース上の位置順
+  readonly removals: readonly DeadCodeRemoval[];
+  // 宣言が出力されないシンボル（Renameパスで名前を割り当てない）
+  readonly symbols: ReadonlySet<Symbol>;
+}
+
+// 取り除く呼び出しの一覧に名前で加えられるプリセット（`@stormworks`）
+export const DROP_CALL_PRESETS: Readonly<Record<string, readonly string[]>> = {
+  // Stormworksのマイコンのデバッグ出力（ゲーム内では何も表示しない）
+  stormworks: ["debug.log"],
+};
+
+const CALL_PATH = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+/**
+ * 取り除く呼び出しの一覧（"debug.log"・"log.trace"・"@stormworks"）を、プリセットを
+ * 展開した関数のパスの集合にする。パスの形式でないもの・未知のプリセットは例外を投げる。
+ */
+export function expandDropCalls(entries: readonly string[]): Set<string> {
+  const paths = new Set<string>();
+  entries.forEach((entry) => {
+    if (entry.startsWith("@")) {
+      const preset = entry.slice(1);
+      if (!Object.hasOwn(DROP_CALL_PRESETS, preset)) {
+        throw new Error('Unknown drop-calls preset "' + entry + '"');
+      }
+      DROP_CALL_PRESETS[preset].forEach((path) => paths.add(path));
+    } else if (CALL_PATH.test(entry)) {
+      paths.add(entry);
+    } else {
+      throw new Error('Invalid drop-calls path "' + entry + '"');
+    }
+  });
+  return paths;
+}
+
+type ConstantLookup = (
+  identifier: Parser.Identifier,
+) => LuaConstant | undefined;
+
+// ASTの各ノードの親ノード（文・式・if文の節）を求める
+function collectParents(ast: Chunk): Map<object, object> {
+  const parents = new Map<object, object>();
+  const visit = (node: unknown, parent: object | undefined) => {
+    if (node === null || typeof node !== "object") {
+      return;
+    }
+    if (Array.isArray(node)) {
+      node.forEach((child) => {
+        visit(child, parent);
+      });
+      return;
+    }
+    const obj = node as Record<string, unknown>;
+    if (parent) {
+      parents.set(obj, parent);
+    }
+    for (const key of Object.keys(obj)) {
+      if (key !== "loc" && key !== "range") {
+        visit(obj[key], obj);
+      }
+    }
+  };
+  visit(ast, undefined);
+  return parents;
+}
+
+function isTruthy(value: { type: string; value?: unknown }): boolean {
+  return !(value.type === "nil" || (value.type === "boolean" && !value.value));
+}
+
+// 文の並び（ブロック）を直接持つノードの、その並び
+export function blocksOf(node: Parser.Node): Parser.Statement[][] {
+  switch (node.type) {
+    case "Chunk":
+    case "DoStatement":
+    case "WhileStatement":
+    case "RepeatStatement":
+    case "ForNumericStatement":
+    case "ForGenericStatement":
+    case "FunctionDeclaration":
+    case "IfClause":
+    case "ElseifClause":
+    case "ElseClause":
+      return [node.body];
+    default:
+      return [];
+  }
+}
+
+/**
+ * モジュールの不要な文を求める。`dropCalls`は取り除く呼び出しの関数のパス
+ * （`expandDropCalls`の結果）。
+ */
+export function findDeadCode(
+  ast: Chunk,
+  resolved: ResolveResult,
+  constantOf: ConstantLookup,
+  luaVersion: LuaVersion,
+  dropCalls: ReadonlySet<string> = new Set(),
+): DeadCode {
+  const parents = collectParents(ast);
+  const dead = new Set<Parser.Node>();
+  const removals: DeadCodeRemoval[] = [];
+  const remove = (node: Parser.Node, description: string) => {
+    dead.add(node);
+    removals.push({ node, description });
+  };
+
+  const isInsideDead = (node: object, boundary?: object): boolean => {
+    for (let n: object | undefined = node; n; n = parents.get(n)) {
+      if (n === boundary || dead.has(n as Parser.Node)) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  // 呼び出す関数のパス。グローバル変数（`debug.log`）か、`local log = require("log")`
+  // で読み込んだモジュールのメンバー（`log.trace`、モジュール名を起点にする）に限る
+  const requiredModuleOf = (symbol: Symbol): string | undefined => {
+    const declaration = parents.get(symbol.declaration) as
+      Parser.Node | undefined;
+    if (declaration?.type !== "LocalStatement") {
+      return undefined;
+    }
+    const ix = declaration.variables.indexOf(symbol.declaration);
+    const init = ix < declaration.init.length ? declaration.init[ix] : null;
+    const call =
+      init && moduleCallArgument(init as unknown as Record<string, unknown>);
+    // 別の値を代入し直すローカルはモジュールを指し続けるとは限らない
+    const reassigned = symbol.references.some((reference) => {
+      const parent = parents.get(reference) as Parser.Node | undefined;
+      return (
+        parent?.type === "AssignmentStatement" &&
+        parent.variables.includes(reference)
+      );
+    });
+    return call?.kind === "require" && !reassigned
+      ? staticStringArgument(call.argument, luaVersion)
+      : undefined;
+  };
+  const callPathOf = (expr: Parser.Expression): string | undefined => {
+    if (expr.type === "Identifier") {
+      const symbol = resolved.symbolOf(expr);
+      if (symbol) {
+        return requiredModuleOf(symbol);
+      }
+      return resolved.globals.get(expr.name)?.references.includes(expr) &&
+        constantOf(expr) === undefined
+        ? expr.name
+        : undefined;
+    }
+    if (expr.type === "MemberExpression") {
+      const base = callPathOf(expr.base);
+      return base === undefined ? undefined : base + "." + expr.identifier.name;
+    }
+    return undefined;
+  };
+
+  // 到達しない文・条件が偽に決まるwhile文・if文の節（構造だけで決まる）
+  const declarations: Parser.Statement[] = [];
+  walk(ast, (node) => {
+    const n = node as unknown as Parser.Node;
+    if (n.type === "CallStatement" && dropCalls.size > 0) {
+      const path = callPathOf(n.expression.base);
+      if (path !== undefined && dropCalls.has(path)) {
+        remove(n, 'call to "' + path + '"');
+      }
+    } else if (n.type === "WhileStatement") {
+      const condition = evaluateConstant(n.condition, constantOf, luaVersion);
+      if (condition && !isTruthy(condition)) {
+        remove(n, "while loop whose condition is always false");
+      }
+    } else if (n.type === "IfStatement") {
+      const kept = new Set(
+        foldIfClauses(n.clauses, constantOf, luaVersion).map(
+          ({ clause }) => clause,
+        ),
+      );
+      n.clauses.forEach((clause) => {
+        if (!kept.has(clause)) {
+          remove(clause, "if branch that can never run");
+        }
+      });
+    } else if (
+      n.type === "LocalStatement" ||
+      (n.type === "FunctionDeclaration" && n.isLocal && n.identifier)
+    ) {
+      // 読まれないローカルとして取り除く候補
+      declarations.push(n);
+    }
+    blocksOf(n).forEach((body) => {
+      let jumped = false;
+      body.forEach((statement) => {
+        if (statement.type === "LabelStatement") {
+          // gotoでラベルに飛び込めるため、ラベル以降は再び到達しうる
+          jumped = false;
+        } else if (jumped) {
+          remove(statement, "unreachable statement");
+        } else if (
+          statement.type === "ReturnStatement" ||
+          statement.type === "BreakStatement" ||
+          statement.type === "GotoStatement"
+        ) {
+          jumped = true;
+        }
+      });
+    });
+  });
+
+  // 評価しても副作用が無い（実行時エラー・メタメソッドの呼び出しも起こらない）と
+  // 確かめられる式。グローバル変数・フィールドの読み出しは__indexを呼びうるため含めない。
+  const isPure = (expr: Parser.Expression): boolean => {
+    switch (expr.type) {
+      case "StringLiteral":
+      case "NumericLiteral":
+      case "BooleanLiteral":
+      case "NilLiteral":
+      case "VarargLiteral":
+      case "FunctionDeclaration":
+        return true;
+      case "Identifier":
+        return (
+          resolved.symbolOf(expr) !== undefined ||
+          constantOf(expr) !== undefined
+        );
+      case "TableConstructorExpression":
+        return expr.fields.every(
+          (field) =>
+            (field.type !== "TableKey" || isPure(field.key)) &&
+            isPure(field.value),
+        );
+      case "LogicalExpression":
+        return isPure(expr.left) && isPure(expr.right);
+      case "UnaryExpression":
+        return expr.operator === "not"
+          ? isPure(expr.argument)
+          : evaluateConstant(expr, constantOf, luaVersion) !== undefined;
+      case "BinaryExpression":
+        return evaluateConstant(expr, constantOf, luaVersion) !== undefined;
+      default:
+        return false;
+    }
+  };
+
+  // シンボルへの代入のうち、文ごと取り除ける（`x = 副作用の無い式`・
+  // `function x() end`）ものの文を返す
+  const removableWriteOf = (
+    reference: Parser.Identifier,
+  ): Parser.Statement | undefined => {
+    const parent = parents.get(reference) as Parser.Node | undefined;
+    if (
+      parent?.type === "AssignmentStatement" &&
+      parent.variables.length === 1 &&
+      parent.variables[0] === reference &&
+      parent.init.length === 1 &&
+      isPure(parent.init[0])
+    ) {
+      return parent;
+    }
+    if (
+      parent?.type === "FunctionDeclaration" &&
+      !parent.isLocal &&
+      parent.identifier === reference
+    ) {
+      return parent;
+    }
+    return undefined;
+  };
+
+  // シンボルが（取り除いていない箇所で）一度も読まれなければ、取り除く必要の
+  // ある代入文を返す。読まれる場合や取り除けない代入がある場合はundefined。
+  const unreadSymbolWrites = (
+    symbol: Symbol,
+    declaration: Parser.Statement,
+  ): Parser.Statement[] | undefined => {
+    const writes: Parser.Statement[] = [];
+    for (const reference of symbol.references) {
+      // ローカル関数の本体からの再帰呼び出しは、関数ごと取り除けば消える
+      const boundary =
+        declaration.type === "FunctionDeclaration" ? declaration : undefined;
+      if (isInsideDead(reference, boundary)) {
+        continue;
+      }
+      const write = removableWriteOf(reference);
+      if (!write) {
+        return undefined;
+      }
+      writes.push(write);
+    }
+    return writes;
+  };
+
+  // 取り除いた文の中の参照が減ることで、他のローカルも読まれなくなる場合があるため
+  // 変化が無くなるまで繰り返す
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const declaration of declarations) {
+      if (isInsideDead(declaration)) {
+        continue;
+      }
+      const variables =
+        declaration.type === "LocalStatement"
+          ? declaration.variables
+          : declaration.type === "FunctionDeclaration" &&
+              declaration.identifier?.type === "Identifier"
+            ? [declaration.identifier]
+            : [];
+      if (
+        declaration.type === "LocalStatement" &&
+        !declaration.init.every(isPure)
+      ) {
+        continue;
+      }
+      const writes: Parser.Statement[] = [];
+      const allUnread = variables.every((variable) => {
+        const symbol = resolved.symbolOf(variable);
+        const symbolWrites = symbol && unreadSymbolWrites(symbol, declaration);
+        writes.push(...(symbolWrites ?? []));
+        return symbolWrites !== undefined;
+      });
+      if (!allUnread || variables.length === 0) {
+        continue;
+      }
+      const names = variables.map((v) => '"' + v.name + '"').join(", ");
+      remove(
+        declaration,
+        declaration.type === "LocalStatement"
+          ? "unused local " + names
+          : "unused local function " + names,
+      );
+      writes
+        .filter((write) => !isInsideDead(write))
+        .forEach((write) => {
+          remove(write, "assignment to unused local " + names);
+        });
+      changed = true;
+    }
+  }
+
+  // 取り除いた範囲の内側で見つかったものは報告しない
+  const reported = removals.filter(({ node }) => {
+    const parent = parents.get(node);
+    return !parent || !isInsideDead(parent);
+  });
+  const startOf = (removal: DeadCodeRemoval) => removal.node.loc?.start;
+  reported.sort(
+    (a, b) =>
+      (startOf(a)?.line ?? 0) - (startOf(b)?.line ?? 0) ||
+      (startOf(a)?.column ?? 0) - (startOf(b)?.column ?? 0),
+  );
+  const symbols = new Set(
+    resolved.symbols.filter((symbol) => isInsideDead(symbol.declaration)),
+  );
+  return { nodes: dead, removals: reported, symbols };
+}
+
+/**
+ * 取り除いたコードの一覧を、1件1行（"ファイル名: [行:列] 内容"）の文字列にする。
+ */
+export function formatDeadCodeReport(
+  removals: readonly { fileName: string; removal: DeadCodeRemoval }[],
+): string {
+  return removals
+    .map(({ fileName, removal }) => {
+      const start = removal.node.loc?.start;
+      return (
+        fileName +
+        ": [" +
+        String(start?.line) +
+        ":" +
+        String(start?.column) +
+        "] removed " +
+        removal.description
+      );
+    })
+    .join("\n");
+}
@@ -0,0 +1,179 @@
+// コンパイル時定数（--define NAME=value）。指定したグローバル変数の参照を
+// 出力時に値のリテラルへ置き換え、条件が定数に決まるif節を出力から取り除く。
+//
+// ASTは複数のMinifier（ParseCache）で共有されるため変更せず、置き換えはすべて
+// printer（MinifyFile）の出力時に行う。
+import Parser from "luaparse";
+import { Chunk, isKeyword } from "./ast2lua";
+import { numericLiteralValue } from "./folding";
+import { walk } from "./linker";
+import { encodeLuaString, utf8ToBytes } from "./luastring";
+import { LuaVersion } from "./luaversion";
+import { ResolveResult } from "./resolver";
+
+// 浮動小数点数の定数（`-D X=1.0`）。numberは整数の値であれば、5.3では整数として扱う
+export interface LuaFloat {
+  readonly float: number;
+}
+
+// Luaの値のうち、定数として扱えるもの（nilはnullで表す）
+export type LuaConstant = boolean | number | LuaFloat | string | null;
+
+export type Defines = Readonly<Record<string, LuaConstant>>;
+
+function isValidName(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !isKeyword(name);
+}
+
+/**
+ * "NAME=value"形式の指定を名前と値に分ける。値はLuaのリテラルとして解釈し
+ * （true/false/nil/数値/引用符付き文字列）、それ以外は文字列として扱う。
+ * 値を省略した"NAME"はtrueになる。
+ */
+export function parseDefine(text: string): [string, LuaConstant] {
+  const eq = text.indexOf("=");
+  const name = eq === -1 ? text : text.slice(0, eq);
+  if (!isValidName(name)) {
+    throw new Error("Invalid define name: " + JSON.stringify(name));
+  }
+  if (eq === -1) {
+    return [name, true];
+  }
+  const raw = text.slice(eq + 1);
+  if (raw === "true" || raw === "false") {
+    return [name, raw === "true"];
+  }
+  if (raw === "nil") {
+    return [name, null];
+  }
+  const number = Number(raw);
+  if (raw !== "" && !isNaN(number) && isFinite(number)) {
+    // 5.3では`1.0`・`1e3`は浮動小数点数のため、整数の値でも数値リテラルと同じく
+    // 表記で区別する
+    const literal: Parser.NumericLiteral = {
+      type: "NumericLiteral",
+      value: Math.abs(number),
+      raw: raw.replace(/^[-+]/, ""),
+    };
+    return [
+      name,
+      numericLiteralValue(literal).type === "float" && Number.isInteger(number)
+        ? { float: number }
+        : number,
+    ];
+  }
+  const quoted = /^(["'])(.*)\1$/s.exec(raw);
+  return [name, quoted ? quoted[2] : raw];
+}
+
+export function isLuaConstant(value: unknown): value is LuaConstant {
+  return (
+    value === null ||
+    typeof value === "boolean" ||
+    typeof value === "string" ||
+    (typeof value === "number" && isFinite(value))
+  );
+}
+
+/**
+ * 定数の値を、`at`の位置情報を持つ式のノードにする。負の数は単項マイナスの
+ * 式にするため、printerが通常の式と同じく演算子の優先順位に従って括弧を付ける。
+ * 文字列は`luaVersion`で読める表記にする。浮動小数点数は整数として読まれない表記にする。
+ */
+export function constantExpression(
+  value: LuaConstant,
+  at: Parser.Node,
+  luaVersion: LuaVersion,
+): Parser.Expression {
+  const loc = at.loc;
+  if (value === null) {
+    return { type: "NilLiteral", value: null, raw: "nil", loc };
+  }
+  if (typeof value === "boolean") {
+    return { type: "BooleanLiteral", value, raw: String(value), loc };
+  }
+  if (typeof value === "string") {
+    return {
+      type: "StringLiteral",
+      value,
+      raw: encodeLuaString(utf8ToBytes(value), luaVersion),
+      loc,
+    };
+  }
+  const number = typeof value === "number" ? value : value.float;
+  if (number < 0 || Object.is(number, -0)) {
+    return {
+      type: "UnaryExpression",
+      operator: "-",
+      argument: constantExpression(
+        typeof value === "number" ? -number : { float: -number },
+        at,
+        luaVersion,
+      ),
+      loc,
+    };
+  }
+  const raw = String(number);
+  return {
+    type: "NumericLiteral",
+    value: number,
+    // 整数に見える表記は整数として読まれるため、".0"を付けて浮動小数点数にする
+    raw: typeof value !== "number" && /^[0-9]+$/.test(raw) ? raw + ".0" : raw,
+    loc,
+  };
+}
+
+/**
+ * モジュール内で、定義済みの定数を指すグローバル参照（読み出し）を集める。
+ * 定数への代入（`DEBUG = false`や非localの`function DEBUG()`）は定数として
+ * 扱えなくなるためエラーにする。
+ */
+export function collectConstantReferences(
+  ast: Chunk,
+  resolved: ResolveResult,
+  defines: Defines,
+  filePath: string,
+): Map<Parser.Identifier, LuaConstant> {
+  const isDefined = (name: string) => Object.hasOwn(defines, name);
+
+  const assignTargets = new Set<Parser.Identifier>();
+  walk(ast, (n) => {
+    const node = n as unknown as Parser.Node;
+    if (node.type === "AssignmentStatement") {
+      node.variables.forEach((v) => {
+        if (v.type === "Identifier") {
+          assignTargets.add(v);
+        }
+      });
+    } else if (
+      node.type === "FunctionDeclaration" &&
+      !node.isLocal &&
+      node.identifier?.type === "Identifier"
+    ) {
+      assignTargets.add(node.identifier);
+    }
+  });
+
+  const references = new Map<Parser.Identifier, LuaConstant>();
+  resolved.globals.forEach((binding) => {
+    if (!isDefined(binding.name)) {
+      return;
+    }
+    binding.references.forEach((identifier) => {
+      if (assignTargets.has(identifier)) {
+        throw new Error(
+          filePath +
+            ": [" +
+            String(identifier.loc?.start.line) +
+            ":" +
+            String(identifier.loc?.start.column) +
+            '] cannot assign to "' +
+            identifier.name +
+            '", which is defined as a compile-time constant',
+        );
+      }
+      references.set(identifier, defines[binding.name]);
+    });
+  });
+  return references;
+}
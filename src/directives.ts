@@ -0,0 +1,120 @@
+// 条件コンパイルの指示コメント（`--#if NAME`・`--#elseif NAME`・`--#else`・`--#endif`）。
+// コンパイル時定数（--define・設定ファイルのdefines）の値で、指示コメントの間の行を
+// 残すか取り除くかを決める。条件には定数の名前（`not NAME`で否定）を書き、値が
+// nil・false以外であれば真とする。定義されていない名前は偽になる。
+//
+// 構文として不完全な断片も書けるよう、パースの前にソースのテキストに適用する。
+// 取り除く行と指示コメント自体の行は空行に置き換え、行番号は変えない
+// （Source Mapの位置・エラーの位置はそのまま元のソースの位置になる）。
+import { Defines } from "./defines";
+
+const DIRECTIVE = /^(\s*)--#(if|elseif|else|endif)\b(.*)$/;
+const CONDITION = /^\s*(not\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*$/;
+
+interface Block {
+  // `--#if`の位置（閉じられていない場合のエラーに使う）
+  readonly line: number;
+  readonly column: number;
+  // 外側のブロックが出力されるか
+  readonly parentActive: boolean;
+  // いずれかの節の条件が真になったか
+  taken: boolean;
+  // 現在の節を出力するか
+  active: boolean;
+  seenElse: boolean;
+}
+
+/**
+ * ソース`code`の条件コンパイルの指示コメントを適用する。指示コメントが無ければ
+ * `code`をそのまま返す。対応の取れない指示コメントはファイル名と位置付きのエラーにする。
+ */
+export function applyDirectives(
+  code: string,
+  defines: Defines,
+  filePath: string,
+): string {
+  const lines = code.split("\n");
+  if (!lines.some((line) => DIRECTIVE.test(line))) {
+    return code;
+  }
+
+  const fail = (line: number, column: number, message: string): never => {
+    throw new Error(
+      filePath + ": [" + String(line) + ":" + String(column) + "] " + message,
+    );
+  };
+  const evaluate = (text: string, line: number, column: number): boolean => {
+    const condition = CONDITION.exec(text);
+    if (!condition) {
+      return fail(line, column, "expected a name after the directive");
+    }
+    const [, negated, name] = condition;
+    const value = Object.hasOwn(defines, name) ? defines[name] : null;
+    const truthy = value !== null && value !== false;
+    return negated ? !truthy : truthy;
+  };
+
+  const stack: Block[] = [];
+  const isActive = () => stack.length === 0 || stack[stack.length - 1].active;
+  const result = lines.map((text, ix) => {
+    const line = ix + 1;
+    const directive = DIRECTIVE.exec(text);
+    if (!directive) {
+      return isActive() ? text : "";
+    }
+    const [, indent, kind, rest] = directive;
+    const column = indent.length;
+    const current = stack[stack.length - 1] as Block | undefined;
+    switch (kind) {
+      case "if": {
+        const parentActive = isActive();
+        const condition = evaluate(rest, line, column);
+        const active = parentActive && condition;
+        stack.push({
+          line,
+          column,
+          parentActive,
+          taken: active,
+          active,
+          seenElse: false,
+        });
+        break;
+      }
+      case "elseif": {
+        if (!current) {
+          return fail(line, column, "--#elseif without a matching --#if");
+        }
+        if (current.seenElse) {
+          return fail(line, column, "--#elseif after --#else");
+        }
+        const condition = evaluate(rest, line, column);
+        current.active = current.parentActive && !current.taken && condition;
+        current.taken ||= current.active;
+        break;
+      }
+      case "else":
+        if (!current) {
+          return fail(line, column, "--#else without a matching --#if");
+        }
+        if (current.seenElse) {
+          return fail(line, column, "duplicate --#else");
+        }
+        current.seenElse = true;
+        current.active = current.parentActive && !current.taken;
+        current.taken ||= current.active;
+        break;
+      default:
+        if (!current) {
+          return fail(line, column, "--#endif without a matching --#if");
+        }
+        stack.pop();
+    }
+    return "";
+  });
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    fail(unclosed.line, unclosed.column, "--#if without a matching --#endif");
+  }
+  return result.join("\n");
+}
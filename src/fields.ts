@@ -0,0 +1,256 @@
+// テーブルのフィールド名の短縮（--mangle-fields）。指定したパターン・一覧に合う
+// フィールド名を、リンクした全モジュールで一貫して同じ短縮名に置き換える。
+// 対象は`.field`・`:method`・`{field=...}`・`t["field"]`・`{["field"]=...}`で、
+// それ以外の文字列（`rawget(t, "field")`など）で参照するフィールドは追跡しない。
+//
+// Stormworks API・標準ライブラリなど、プログラムの外で定義されたテーブルの
+// フィールドは短縮してはならないため、次のフィールド名は対象にしない。
+// - Stormworks API・標準ライブラリのグローバルテーブルと、プログラムのどこからも
+//   代入されないグローバルを起点とするパス（`screen.drawRect`・`math.floor`）の
+//   フィールド名
+// - Stormworks APIの関数名・文字列メソッド・メタメソッドの名前（ローカルに代入した
+//   APIテーブルや文字列のメソッド呼び出しなど、起点が分からない参照のため）
+import Parser from "luaparse";
+import { Chunk } from "./ast2lua";
+import { walk } from "./linker";
+import { decodeLuaString } from "./luastring";
+import { generateCandidate, isAvailable } from "./renamer";
+import { LuaVersion } from "./luaversion";
+import { ResolveResult } from "./resolver";
+
+// Stormworks APIと標準ライブラリのグローバルテーブル。プログラム中でフィールドに
+// 代入していても、これらを起点とするパスのフィールド名は短縮しない。
+export const STORMWORKS_API_GLOBALS: readonly string[] = [
+  "screen",
+  "map",
+  "input",
+  "output",
+  "property",
+  "async",
+  "debug",
+  "server",
+  "matrix",
+  "math",
+  "string",
+  "table",
+  "coroutine",
+  "os",
+  "io",
+  "utf8",
+  "bit32",
+  "_G",
+  "_ENV",
+];
+
+// マイコンのLua APIの関数名（https://stormworks.fandom.com/wiki/Lua_In_Stormworks_MC）
+export const STORMWORKS_API_FIELDS: readonly string[] = [
+  // screen
+  "setColor",
+  "drawClear",
+  "drawLine",
+  "drawCircle",
+  "drawCircleF",
+  "drawRect",
+  "drawRectF",
+  "drawTriangle",
+  "drawTriangleF",
+  "drawText",
+  "drawTextBox",
+  "drawMap",
+  "setMapColorOcean",
+  "setMapColorShallows",
+  "setMapColorLand",
+  "setMapColorGrass",
+  "setMapColorSand",
+  "setMapColorSnow",
+  "setMapColorRock",
+  "setMapColorGravel",
+  "getWidth",
+  "getHeight",
+  // map
+  "screenToMap",
+  "mapToScreen",
+  // input・output・property
+  "getBool",
+  "getNumber",
+  "setBool",
+  "setNumber",
+  "getText",
+  // async・debug
+  "httpGet",
+  "log",
+];
+
+// 文字列のメソッド呼び出し（`s:format()`）で参照される文字列ライブラリの関数名
+const STRING_METHODS: readonly string[] = [
+  "byte",
+  "char",
+  "dump",
+  "find",
+  "format",
+  "gmatch",
+  "gsub",
+  "len",
+  "lower",
+  "match",
+  "rep",
+  "reverse",
+  "sub",
+  "upper",
+  "pack",
+  "packsize",
+  "unpack",
+];
+
+const METAMETHODS: readonly string[] = [
+  "__index",
+  "__newindex",
+  "__call",
+  "__tostring",
+  "__len",
+  "__eq",
+  "__lt",
+  "__le",
+  "__concat",
+  "__unm",
+  "__add",
+  "__sub",
+  "__mul",
+  "__div",
+  "__mod",
+  "__pow",
+  "__idiv",
+  "__band",
+  "__bor",
+  "__bxor",
+  "__shl",
+  "__shr",
+  "__bnot",
+  "__gc",
+  "__mode",
+  "__metatable",
+  "__name",
+  "__pairs",
+  "__close",
+];
+
+export interface FieldMangling {
+  // 元のフィールド名 → 短縮名
+  readonly names: ReadonlyMap<string, string>;
+  // フィールド名として短縮する文字列リテラル（`t["field"]`・`{["field"]=...}`のキー）
+  readonly literals: ReadonlySet<Parser.StringLiteral>;
+}
+
+/**
+ * `--mangle-fields`の指定（正規表現のソース、またはフィールド名の一覧）から、
+ * 短縮の対象にするフィールド名かどうかを判定する関数を作る。
+ */
+export function fieldNameMatcher(
+  pattern: string | readonly string[],
+): (name: string) => boolean {
+  if (typeof pattern === "string") {
+    const regex = new RegExp(pattern);
+    return (name) => regex.test(name);
+  }
+  const names = new Set(pattern);
+  return (name) => names.has(name);
+}
+
+const IDENTIFIER = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * リンクした全モジュールから短縮するフィールド名を集め、参照回数の多いものから
+ * 順に短い名前を割り当てる。`writtenGlobals`はプログラム全体で代入される
+ * グローバル変数。短縮名は短縮しないフィールド名・文字列リテラルの値と衝突しない。
+ */
+export function planFieldMangling(
+  modules: readonly { ast: Chunk; resolved: ResolveResult }[],
+  matches: (name: string) => boolean,
+  writtenGlobals: ReadonlySet<string>,
+  luaVersion: LuaVersion,
+): FieldMangling {
+  const excluded = new Set([
+    ...STORMWORKS_API_FIELDS,
+    ...STRING_METHODS,
+    ...METAMETHODS,
+  ]);
+  // フィールド名として使われる名前・文字列の値（短縮名の衝突の判定に使う）
+  const seen = new Set<string>();
+  const counts = new Map<string, number>();
+  const literalsByName = new Map<string, Parser.StringLiteral[]>();
+  const use = (name: string) => {
+    seen.add(name);
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  };
+
+  modules.forEach(({ ast, resolved }) => {
+    // プログラムの外で定義されたグローバルを起点とする`.`・`:`のパスか
+    const isExternalPath = (expr: Parser.Expression): boolean =>
+      expr.type === "Identifier"
+        ? !resolved.symbolOf(expr) &&
+          (!writtenGlobals.has(expr.name) ||
+            STORMWORKS_API_GLOBALS.includes(expr.name))
+        : expr.type === "MemberExpression" && isExternalPath(expr.base);
+    const useKey = (key: Parser.Expression) => {
+      if (key.type !== "StringLiteral") {
+        return;
+      }
+      const name = decodeLuaString(key.raw, luaVersion);
+      use(name);
+      const list = literalsByName.get(name) ?? [];
+      list.push(key);
+      literalsByName.set(name, list);
+    };
+
+    walk(ast, (n) => {
+      const node = n as unknown as Parser.Node;
+      switch (node.type) {
+        case "MemberExpression":
+          use(node.identifier.name);
+          if (isExternalPath(node.base)) {
+            excluded.add(node.identifier.name);
+          }
+          break;
+        case "TableKeyString":
+          use(node.key.name);
+          break;
+        case "IndexExpression":
+          useKey(node.index);
+          break;
+        case "TableKey":
+          useKey(node.key);
+          break;
+        case "StringLiteral":
+          // 動的なキー（`t[k]`）として使われうる文字列とも衝突させない
+          seen.add(decodeLuaString(node.raw, luaVersion));
+          break;
+      }
+    });
+  });
+
+  const mangled = [...counts.keys()].filter(
+    (name) => IDENTIFIER.test(name) && matches(name) && !excluded.has(name),
+  );
+  mangled.sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0));
+  // 短縮しないことにした名前と衝突しないよう、元の名前はすべて予約する
+  const reserved = new Set([...seen, ...excluded]);
+
+  const names = new Map<string, string>();
+  let counter = 0;
+  for (const name of mangled) {
+    let candidate: string;
+    do {
+      candidate = generateCandidate(counter++);
+    } while (!isAvailable(candidate, reserved));
+    if (candidate.length >= name.length) {
+      // 短くならない名前は短縮せず、候補は次の名前に回す
+      counter--;
+      continue;
+    }
+    names.set(name, candidate);
+  }
+  const literals = new Set(
+    [...names.keys()].flatMap((name) => literalsByName.get(name) ?? []),
+  );
+  return { names, literals };
+}
@@ -0,0 +1,501 @@
+// 定数畳み込み。リテラル（とコンパイル時定数）だけからなる部分式を、Lua 5.3の
+// 意味論（整数と浮動小数点数の区別、`//`・`%`の符号の規則、`..`での数値の
+// 文字列化）に従って評価し、値のリテラルに置き換える。
+//
+// Resolveパスの後にモジュールごとに一度だけ計算し、置き換えはprinter
+// （MinifyFile）が出力時に行う。置き換えた方が出力が短くなる場合に限り
+// 置き換えるため、その判断もprinterに任せる。
+import Parser from "luaparse";
+import { Chunk } from "./ast2lua";
+import { constantExpression, LuaConstant } from "./defines";
+import { walk } from "./linker";
+import { LuaVersion } from "./luaversion";
+import {
+  bytesToUtf8,
+  decodeLuaString,
+  encodeLuaString,
+  utf8ToBytes,
+} from "./luastring";
+
+// 評価結果の値。数値は整数（64bit）と浮動小数点数を区別し、文字列は
+// バイト文字列（luastring.ts）で持つ。
+export type FoldedValue =
+  | { type: "nil" }
+  | { type: "boolean"; value: boolean }
+  | { type: "integer"; value: bigint }
+  | { type: "float"; value: number }
+  | { type: "string"; value: string };
+
+type ConstantLookup = (
+  identifier: Parser.Identifier,
+) => LuaConstant | undefined;
+
+function fromConstant(value: LuaConstant): FoldedValue {
+  if (value === null) {
+    return { type: "nil" };
+  }
+  if (typeof value === "boolean") {
+    return { type: "boolean", value };
+  }
+  if (typeof value === "string") {
+    return { type: "string", value: utf8ToBytes(value) };
+  }
+  if (typeof value === "object") {
+    return { type: "float", value: value.float };
+  }
+  return Number.isInteger(value) && Math.abs(value) <= Number.MAX_SAFE_INTEGER
+    ? { type: "integer", value: BigInt(value) }
+    : { type: "float", value };
+}
+
+function isTruthy(value: FoldedValue): boolean {
+  return !(value.type === "nil" || (value.type === "boolean" && !value.value));
+}
+
+const integer = (value: bigint): FoldedValue => ({
+  type: "integer",
+  value: BigInt.asIntN(64, value),
+});
+const float = (value: number): FoldedValue => ({ type: "float", value });
+
+// Lua 5.3の字句規則に従い、数値リテラルが整数か浮動小数点数かを判定して値を得る。
+// 10進の整数リテラルが64bitに収まらない場合は浮動小数点数になり、16進の整数
+// リテラルは64bitで折り返す。
+export function numericLiteralValue(
+  literal: Parser.NumericLiteral,
+): FoldedValue {
+  const raw = literal.raw;
+  if (/^0[xX][0-9a-fA-F]+$/.test(raw)) {
+    return integer(BigInt(raw));
+  }
+  if (/^[0-9]+$/.test(raw)) {
+    const value = BigInt(raw);
+    return value <= BigInt.asIntN(64, (1n << 63n) - 1n)
+      ? integer(value)
+      : float(literal.value);
+  }
+  return float(literal.value);
+}
+
+function toFloat(value: FoldedValue): number | undefined {
+  if (value.type === "integer") {
+    return Number(value.value);
+  }
+  return value.type === "float" ? value.value : undefined;
+}
+
+// 整数として表せる数値（整数値の浮動小数点数を含む）を整数にする。ビット演算の
+// オペランドの変換に使う。
+function toInteger(value: FoldedValue): bigint | undefined {
+  if (value.type === "integer") {
+    return value.value;
+  }
+  if (
+    value.type === "float" &&
+    Number.isInteger(value.value) &&
+    value.value >= -(2 ** 63) &&
+    value.value < 2 ** 63
+  ) {
+    return BigInt(value.value);
+  }
+  return undefined;
+}
+
+// C言語の"%.14g"（Lua 5.3のLUAI_NUMFFORMAT）と同じ書式
+function formatG14(value: number): string {
+  // toExponential・toFixedは負の0の符号を落とすため、符号は別に付ける
+  if (value < 0 || Object.is(value, -0)) {
+    return "-" + formatG14(-value);
+  }
+  const [mantissa, exponentText] = value.toExponential(13).split("e");
+  const exponent = Number(exponentText);
+  const trimZeros = (text: string) =>
+    text.includes(".") ? text.replace(/\.?0+$/, "") : text;
+  if (exponent < -4 || exponent >= 14) {
+    return (
+      trimZeros(mantissa) +
+      "e" +
+      (exponent < 0 ? "-" : "+") +
+      String(Math.abs(exponent)).padStart(2, "0")
+    );
+  }
+  return trimZeros(value.toFixed(13 - exponent));
+}
+
+/**
+ * `..`で数値を文字列にするときの表現（Lua 5.3のtostringと同じ）。浮動小数点数は
+ * 整数に見える場合に".0"が付く。inf・nanは処理系依存の表現になるため扱わない。
+ */
+function numberToString(value: FoldedValue): string | undefined {
+  if (value.type === "integer") {
+    return String(value.value);
+  }
+  if (value.type !== "float" || !isFinite(value.value)) {
+    return undefined;
+  }
+  const text = formatG14(value.value);
+  return /^-?[0-9]+$/.test(text) ? text + ".0" : text;
+}
+
+function floorDivide(a: bigint, b: bigint): bigint {
+  const q = a / b;
+  return a % b !== 0n && a < 0n !== b < 0n ? q - 1n : q;
+}
+
+function floorModulo(a: bigint, b: bigint): bigint {
+  const r = a % b;
+  return r !== 0n && r < 0n !== b < 0n ? r + b : r;
+}
+
+// luai_nummodと同じ、除数と同じ符号になる浮動小数点数の剰余
+function floatModulo(a: number, b: number): number {
+  const m = a % b;
+  return (m > 0 ? b < 0 : m < 0 && b !== m) ? m + b : m;
+}
+
+function shiftLeft(a: bigint, n: bigint): bigint {
+  if (n <= -64n || n >= 64n) {
+    return 0n;
+  }
+  return n >= 0n ? a << n : BigInt.asUintN(64, a) >> -n;
+}
+
+function arithmetic(
+  operator: string,
+  left: FoldedValue,
+  right: FoldedValue,
+): FoldedValue | undefined {
+  if (left.type === "integer" && right.type === "integer") {
+    const [a, b] = [left.value, right.value];
+    switch (operator) {
+      case "+":
+        return integer(a + b);
+      case "-":
+        return integer(a - b);
+      case "*":
+        return integer(a * b);
+      // 整数の0による`//`・`%`は実行時エラーになるため畳み込まない
+      case "//":
+        return b === 0n ? undefined : integer(floorDivide(a, b));
+      case "%":
+        return b === 0n ? undefined : integer(floorModulo(a, b));
+    }
+  }
+  const [a, b] = [toFloat(left), toFloat(right)];
+  if (a === undefined || b === undefined) {
+    // 文字列の数値への変換は畳み込まない
+    return undefined;
+  }
+  switch (operator) {
+    case "+":
+      return float(a + b);
+    case "-":
+      return float(a - b);
+    case "*":
+      return float(a * b);
+    case "/":
+      return float(a / b);
+    case "^":
+      return float(Math.pow(a, b));
+    case "//":
+      return float(Math.floor(a / b));
+    case "%":
+      return float(floatModulo(a, b));
+  }
+  return undefined;
+}
+
+function bitwise(
+  operator: string,
+  left: FoldedValue,
+  right: FoldedValue,
+): FoldedValue | undefined {
+  const [a, b] = [toInteger(left), toInteger(right)];
+  if (a === undefined || b === undefined) {
+    return undefined;
+  }
+  switch (operator) {
+    case "&":
+      return integer(a & b);
+    case "|":
+      return integer(a | b);
+    case "~":
+      return integer(a ^ b);
+    case "<<":
+      return integer(shiftLeft(a, b));
+    case ">>":
+      return integer(shiftLeft(a, -b));
+  }
+  return undefined;
+}
+
+function numericValue(value: FoldedValue): bigint | number | undefined {
+  return value.type === "integer" || value.type === "float"
+    ? value.value
+    : undefined;
+}
+
+function compare(
+  operator: string,
+  left: FoldedValue,
+  right: FoldedValue,
+): FoldedValue | undefined {
+  // bigintとnumberの比較は、JavaScriptでも数学的な値として正確に行われる
+  const [a, b] = [numericValue(left), numericValue(right)];
+  if (operator === "==" || operator === "~=") {
+    const equal =
+      a !== undefined && b !== undefined
+        ? a == b
+        : left.type === right.type &&
+          (left.type === "nil" ||
+            (left as { value: unknown }).value ===
+              (right as { value: unknown }).value);
+    return { type: "boolean", value: operator === "==" ? equal : !equal };
+  }
+  // 文字列の大小比較はロケール依存のため、数値どうしの比較だけを畳み込む
+  if (a === undefined || b === undefined) {
+    return undefined;
+  }
+  switch (operator) {
+    case "<":
+      return { type: "boolean", value: a < b };
+    case "<=":
+      return { type: "boolean", value: a <= b };
+    case ">":
+      return { type: "boolean", value: a > b };
+    case ">=":
+      return { type: "boolean", value: a >= b };
+  }
+  return undefined;
+}
+
+function concat(
+  left: FoldedValue,
+  right: FoldedValue,
+): FoldedValue | undefined {
+  const toText = (v: FoldedValue) =>
+    v.type === "string" ? v.value : numberToString(v);
+  const [a, b] = [toText(left), toText(right)];
+  return a === undefined || b === undefined
+    ? undefined
+    : { type: "string", value: a + b };
+}
+
+/**
+ * 式が副作用の無い定数に決まる場合にその値を返す。`constantOf`はコンパイル時定数
+ * として置き換えるグローバル参照の値を返す関数。`memo`を渡すと部分式の評価結果を
+ * 使い回す。
+ */
+export function evaluateConstant(
+  expr: Parser.Expression,
+  constantOf: ConstantLookup,
+  luaVersion: LuaVersion,
+  memo?: Map<Parser.Expression, FoldedValue | undefined>,
+): FoldedValue | undefined {
+  if (memo?.has(expr)) {
+    return memo.get(expr);
+  }
+  const value = evaluate(expr, constantOf, luaVersion, memo);
+  memo?.set(expr, value);
+  return value;
+}
+
+function evaluate(
+  expr: Parser.Expression,
+  constantOf: ConstantLookup,
+  luaVersion: LuaVersion,
+  memo: Map<Parser.Expression, FoldedValue | undefined> | undefined,
+): FoldedValue | undefined {
+  const evaluateOperand = (e: Parser.Expression) =>
+    evaluateConstant(e, constantOf, luaVersion, memo);
+  switch (expr.type) {
+    case "Identifier": {
+      const value = constantOf(expr);
+      return value === undefined ? undefined : fromConstant(value);
+    }
+    case "NilLiteral":
+      return { type: "nil" };
+    case "BooleanLiteral":
+      return { type: "boolean", value: expr.value };
+    case "NumericLiteral":
+      return numericLiteralValue(expr);
+    case "StringLiteral":
+      // StringLiteralのvalueはluaparseの既定設定では常にnullのため、rawから得る
+      return { type: "string", value: decodeLuaString(expr.raw, luaVersion) };
+    case "UnaryExpression": {
+      const argument = evaluateOperand(expr.argument);
+      if (!argument) {
+        return undefined;
+      }
+      switch (expr.operator) {
+        case "not":
+          return { type: "boolean", value: !isTruthy(argument) };
+        case "-":
+          return argument.type === "integer"
+            ? integer(-argument.value)
+            : argument.type === "float"
+              ? float(-argument.value)
+              : undefined;
+        case "~": {
+          const value = toInteger(argument);
+          return value === undefined ? undefined : integer(~value);
+        }
+        case "#":
+          return argument.type === "string"
+            ? integer(BigInt(argument.value.length))
+            : undefined;
+      }
+      return undefined;
+    }
+    case "LogicalExpression": {
+      const left = evaluateOperand(expr.left);
+      if (!left) {
+        return undefined;
+      }
+      // 短絡評価で右辺が評価されない場合は、右辺が定数でなくても値が決まる
+      if (expr.operator === "and" ? !isTruthy(left) : isTruthy(left)) {
+        return left;
+      }
+      return evaluateOperand(expr.right);
+    }
+    case "BinaryExpression": {
+      const left = evaluateOperand(expr.left);
+      const right = evaluateOperand(expr.right);
+      if (!left || !right) {
+        return undefined;
+      }
+      const operator = expr.operator;
+      if (operator === "..") {
+        return concat(left, right);
+      }
+      if (["==", "~=", "<", "<=", ">", ">="].includes(operator)) {
+        return compare(operator, left, right);
+      }
+      if (["&", "|", "~", "<<", ">>"].includes(operator)) {
+        return bitwise(operator, left, right);
+      }
+      return arithmetic(operator, left, right);
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 値をリテラル（負の数は単項マイナスの式）にする。ソース上に書けない値
+ * （inf・nan・整数の最小値）はundefinedを返す。
+ */
+function valueExpression(
+  value: FoldedValue,
+  at: Parser.Node,
+  luaVersion: LuaVersion,
+): Parser.Expression | undefined {
+  switch (value.type) {
+    case "nil":
+      return constantExpression(null, at, luaVersion);
+    case "boolean":
+      return constantExpression(value.value, at, luaVersion);
+    case "string":
+      // 値はバイト列のため、テキストとして扱うconstantExpressionは使わない
+      return {
+        type: "StringLiteral",
+        value: bytesToUtf8(value.value),
+        raw: encodeLuaString(value.value, luaVersion),
+        loc: at.loc,
+      };
+    case "integer": {
+      if (value.value === BigInt.asIntN(64, 1n << 63n)) {
+        return undefined;
+      }
+      const magnitude = value.value < 0n ? -value.value : value.value;
+      const literal: Parser.NumericLiteral = {
+        type: "NumericLiteral",
+        value: Number(magnitude),
+        raw: String(magnitude),
+        loc: at.loc,
+      };
+      return value.value < 0n
+        ? {
+            type: "UnaryExpression",
+            operator: "-",
+            argument: literal,
+            loc: at.loc,
+          }
+        : literal;
+    }
+    case "float": {
+      return isFinite(value.value)
+        ? constantExpression({ float: value.value }, at, luaVersion)
+        : undefined;
+    }
+  }
+}
+
+/**
+ * モジュール内の、値が定数に決まる演算式（単項・二項・論理演算）とその置き換え先の
+ * 式を集める。置き換え先が元の式より短く出力されるかどうかはprinterが判断する。
+ *
+ * 5.3以外を対象とする場合は整数の区別が無いため畳み込まない。
+ */
+export function collectFoldedExpressions(
+  ast: Chunk,
+  constantOf: ConstantLookup,
+  luaVersion: LuaVersion,
+): Map<Parser.Expression, Parser.Expression> {
+  const folded = new Map<Parser.Expression, Parser.Expression>();
+  if (luaVersion !== "5.3") {
+    return folded;
+  }
+  const memo = new Map<Parser.Expression, FoldedValue | undefined>();
+  walk(ast, (n) => {
+    const node = n as unknown as Parser.Expression;
+    if (
+      node.type !== "UnaryExpression" &&
+      node.type !== "BinaryExpression" &&
+      node.type !== "LogicalExpression"
+    ) {
+      return;
+    }
+    const value = evaluateConstant(node, constantOf, luaVersion, memo);
+    const replacement = value && valueExpression(value, node, luaVersion);
+    if (replacement) {
+      folded.set(node, replacement);
+    }
+  });
+  return folded;
+}
+
+/**
+ * if文の節のうち、条件が定数に決まるものを取り除いた残りを返す。
+ * - 条件が偽に決まる節は取り除く
+ * - 条件が真に決まる節は以降の節を取り除き、else節として扱う
+ * 残った節が無い場合は空配列を返す（if文ごと出力しない）。
+ */
+export function foldIfClauses(
+  clauses: Parser.IfStatement["clauses"],
+  constantOf: ConstantLookup,
+  luaVersion: LuaVersion,
+): { clause: Parser.IfStatement["clauses"][number]; isElse: boolean }[] {
+  const kept: {
+    clause: Parser.IfStatement["clauses"][number];
+    isElse: boolean;
+  }[] = [];
+  for (const clause of clauses) {
+    if (clause.type === "ElseClause") {
+      kept.push({ clause, isElse: true });
+      break;
+    }
+    const condition = evaluateConstant(
+      clause.condition,
+      constantOf,
+      luaVersion,
+    );
+    if (!condition) {
+      kept.push({ clause, isElse: false });
+    } else if (isTruthy(condition)) {
+      kept.push({ clause, isElse: true });
+      break;
+    }
+  }
+  return kept;
+}
@@ -0,0 +1,130 @@
+// ライブラリとして使う場合のエントリポイント。
+// CLI（cli.ts）と違い、ファイルの読み書きを一切行わずにminifyできる。
+import path from "path";
+import { Options } from "luaparse";
+import { RawSourceMap } from "source-map";
+import {
+  DEFAULT_LUAPARSE_SETTINGS,
+  Minifier,
+  MinifierMode,
+  ModuleLoader,
+  readModuleFile,
+} from "./minifier";
+import { NameCache } from "./namecache";
+import { NameMap } from "./names";
+import { buildMinifiedOutput, SourceMappingUrlStyle } from "./output";
+
+export { DEFAULT_LUAPARSE_SETTINGS, Minifier, NameCache, readModuleFile };
+export type { MinifierMode, ModuleLoader };
+export { buildMinifiedOutput } from "./output";
+export { findSymbolAt, lookupOutputName } from "./names";
+export { traceErrorText } from "./trace";
+export type { NameMap, NameMapScope, NameMapSymbol } from "./names";
+export type {
+  BuildMinifiedOutputOptions,
+  MinifiedOutput,
+  SourceMappingUrlStyle,
+} from "./output";
+
+export interface MinifyOptions extends Partial<MinifierMode> {
+  // エントリファイルのパス（`modules`のキー、または`loader`に渡すパスと同じ形式）
+  entry: string;
+  // パス→ソースの対応。キーはエントリと同じ基準の"/"区切りの相対パス
+  // （例: "main.lua", "lib/util.lua"）。`loader`と同時に指定した場合は
+  // `modules`を先に引き、見つからなければ`loader`を呼ぶ。
+  modules?: Record<string, string> | ReadonlyMap<string, string>;
+  // `modules`に無いモジュールの読み込みに使う。`modules`も`loader`も
+  // 指定しない場合は実ファイルを読む。
+  loader?: ModuleLoader;
+  luaParseSettings?: Partial<Options>;
+  // Source Mapの`file`に設定する出力ファイル名。省略時はエントリ名から
+  // 導出する（"main.lua" → "main.min.lua"）。
+  file?: string;
+  // 指定した場合のみ、出力の末尾にこのファイル名を指すsourceMappingURL
+  // アノテーションを付加する。
+  mapFileName?: string;
+  sourceMappingUrlStyle?: SourceMappingUrlStyle;
+  // 指定した場合、前回のビルドで割り当てた短縮名を優先して使い、今回の割り当てを
+  // 書き戻す（`stringify()`でファイルに保存できる）。
+  nameCache?: NameCache;
+}
+
+export interface MinifyResult {
+  code: string;
+  map: RawSourceMap;
+  // 短縮名の対応表（CLIが.names.jsonに書き出すもの）
+  names: NameMap;
+}
+
+// パスの表記揺れ（"./"の有無・OSの区切り文字）を吸収して比較するための正規化
+function normalizeModulePath(filePath: string): string {
+  return path.posix.normalize(filePath.split(path.sep).join("/"));
+}
+
+/**
+ * パス→ソースの対応からModuleLoaderを作る。見つからないパスは`fallback`に委ねる。
+ */
+export function createModuleMapLoader(
+  modules: Record<string, string> | ReadonlyMap<string, string>,
+  fallback?: ModuleLoader,
+): ModuleLoader {
+  const entries: [string, string][] =
+    modules instanceof Map
+      ? [...(modules as ReadonlyMap<string, string>)]
+      : Object.entries(modules as Record<string, string>);
+  const sources = new Map(
+    entries.map(([filePath, code]) => [normalizeModulePath(filePath), code]),
+  );
+  return (filePath) =>
+    sources.get(normalizeModulePath(filePath)) ?? fallback?.(filePath);
+}
+
+/**
+ * エントリから到達可能な全モジュールをminifyし、コードとSource Mapを返す。
+ */
+export function minify(options: MinifyOptions): MinifyResult {
+  const {
+    entry,
+    modules,
+    loader,
+    luaParseSettings = DEFAULT_LUAPARSE_SETTINGS,
+    file,
+    mapFileName,
+    sourceMappingUrlStyle,
+    nameCache,
+    ...mode
+  } = options;
+
+  const moduleLoader = modules
+    ? createModuleMapLoader(modules, loader)
+    : (loader ?? readModuleFile);
+  const minifier = new Minifier(
+    entry,
+    luaParseSettings,
+    { moduleLikeLua: false, ...mode },
+    moduleLoader,
+    undefined,
+    nameCache,
+  );
+  const sourceNode = minifier.parse();
+
+  const parsedEntry = path.parse(entry);
+  const minFileName = file ?? parsedEntry.name + ".min.lua";
+  const names = minifier.nameMap(path.basename(minFileName));
+
+  if (mapFileName !== undefined) {
+    const output = buildMinifiedOutput(sourceNode, minFileName, mapFileName, {
+      sourceMappingUrlStyle,
+    });
+    return {
+      code: output.code,
+      map: JSON.parse(output.map) as RawSourceMap,
+      names,
+    };
+  }
+
+  const { code, map } = sourceNode.toStringWithSourceMap({
+    file: path.basename(minFileName),
+  });
+  return { code, map: map.toJSON(), names };
+}
@@ -0,0 +1,177 @@
+// 入力のSource Map。TypeScriptToLua・Tealなど他のツールが生成したモジュールに付いている
+// .lua.mapを読み、モジュール中の位置を元のソース（.ts・.tl）の位置に戻す。printerは
+// 出力の位置をこれで書き換えるため、最終的な.mapは元のソースを指す。
+//
+// printerは同期的に位置を求めるため、非同期のSourceMapConsumerは使わず、
+// mappingsを直接デコードして行ごとの表にする。
+import path from "path";
+
+const BASE64 =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+interface Segment {
+  // 生成側（モジュール）の列
+  readonly column: number;
+  readonly source: number;
+  readonly line: number;
+  readonly originalColumn: number;
+  readonly name: number | undefined;
+}
+
+export interface OriginalPosition {
+  // 出力の.mapの`sources`に載せる名前
+  readonly source: string;
+  // 行は1始まり、列は0始まり
+  readonly line: number;
+  readonly column: number;
+  readonly name: string | undefined;
+}
+
+interface RawInputSourceMap {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources: (string | null)[];
+  sourcesContent?: (string | null)[];
+  names?: string[];
+  mappings: string;
+}
+
+function isRawInputSourceMap(value: unknown): value is RawInputSourceMap {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  const map = value as Record<string, unknown>;
+  return (
+    map.version === 3 &&
+    Array.isArray(map.sources) &&
+    typeof map.mappings === "string" &&
+    (map.names === undefined || Array.isArray(map.names)) &&
+    (map.sourcesContent === undefined || Array.isArray(map.sourcesContent))
+  );
+}
+
+// Base64 VLQの値の並びにデコードする
+function decodeVLQ(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char);
+    if (digit === -1) {
+      throw new Error("invalid mappings");
+    }
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+  return values;
+}
+
+function decodeMappings(mappings: string): Segment[][] {
+  // 生成側の列以外は、行をまたいで前のセグメントからの差分で表される
+  let source = 0;
+  let line = 0;
+  let originalColumn = 0;
+  let name = 0;
+  return mappings.split(";").map((text) => {
+    let column = 0;
+    const segments: Segment[] = [];
+    text.split(",").forEach((segment) => {
+      if (segment === "") {
+        return;
+      }
+      const values = decodeVLQ(segment);
+      column += values[0];
+      if (values.length < 4) {
+        return;
+      }
+      source += values[1];
+      line += values[2];
+      originalColumn += values[3];
+      if (values.length >= 5) {
+        name += values[4];
+      }
+      segments.push({
+        column,
+        source,
+        line,
+        originalColumn,
+        name: values.length >= 5 ? name : undefined,
+      });
+    });
+    return segments.sort((a, b) => a.column - b.column);
+  });
+}
+
+export class InputSourceMap {
+  private constructor(
+    private readonly lines: readonly Segment[][],
+    // 出力の.mapの`sources`に載せる名前
+    readonly sources: readonly string[],
+    readonly sourcesContent: readonly (string | null)[],
+    private readonly names: readonly string[],
+    readonly file: string | undefined,
+  ) {}
+
+  /**
+   * Source Mapの内容を読み込む。`mapPath`は.mapのパス（`sources`の基準）、
+   * `sourceName`は解決した元のソースのパスを出力の.mapに載せる名前にする関数。
+   */
+  static parse(
+    text: string,
+    mapPath: string,
+    sourceName: (filePath: string) => string,
+  ): InputSourceMap {
+    try {
+      const json: unknown = JSON.parse(text);
+      if (!isRawInputSourceMap(json)) {
+        throw new Error("not a version 3 source map");
+      }
+      const root = path.join(path.dirname(mapPath), json.sourceRoot ?? "");
+      return new InputSourceMap(
+        decodeMappings(json.mappings),
+        json.sources.map((source) => sourceName(path.join(root, source ?? ""))),
+        json.sourcesContent ?? [],
+        json.names ?? [],
+        json.file,
+      );
+    } catch (e) {
+      throw new Error(
+        mapPath + ": " + (e instanceof Error ? e.message : String(e)),
+      );
+    }
+  }
+
+  /**
+   * モジュール中の位置（行は1始まり、列は0始まり）に対応する元のソースの位置を
+   * 返す。同じ行でその位置以前のマッピングが無ければundefinedを返す。
+   */
+  originalPositionFor(
+    line: number,
+    column: number,
+  ): OriginalPosition | undefined {
+    const segments = line <= this.lines.length ? this.lines[line - 1] : [];
+    let found: Segment | undefined;
+    for (const segment of segments) {
+      if (segment.column > column) {
+        break;
+      }
+      found = segment;
+    }
+    if (!found || found.source >= this.sources.length) {
+      return undefined;
+    }
+    return {
+      source: this.sources[found.source],
+      line: found.line + 1,
+      column: found.originalColumn,
+      name: found.name === undefined ? undefined : this.names[found.name],
+    };
+  }
+}
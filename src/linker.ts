@@ -1,4 +1,6 @@
 import { Chunk } from "./ast2lua";
+import { bytesToUtf8, decodeLuaString } from "./luastring";
+import { LuaVersion } from "./luaversion";
 
 export interface ModuleReference {
   kind: "require" | "dofile";
@@ -8,8 +10,12 @@ export interface ModuleReference {
 /**
  * Chunk配下を型を問わず再帰的に走査するジェネリックウォーカー。
  * printerとは独立に、AST全体からrequire/dofile呼び出しを見つけ出すために使う（#18）。
+ * `visit`がfalseを返したノードの子は走査しない。
  */
-function walk(node: unknown, visit: (n: Record<string, unknown>) => void) {
+export function walk(
+  node: unknown,
+  visit: (n: Record<string, unknown>) => unknown,
+) {
   if (node === null || typeof node !== "object") {
     return;
   }
@@ -20,8 +26,8 @@ function walk(node: unknown, visit: (n: Record<string, unknown>) => void) {
     return;
   }
   const obj = node as Record<string, unknown>;
-  if (typeof obj.type === "string") {
-    visit(obj);
+  if (typeof obj.type === "string" && visit(obj) === false) {
+    return;
   }
   for (const key of Object.keys(obj)) {
     if (key === "loc" || key === "range") {
@@ -32,28 +38,26 @@ function walk(node: unknown, visit: (n: Record<string, unknown>) => void) {
 }
 
 // luaparseはデフォルト設定（encodingMode: "none"）ではStringLiteral.valueを
-// 常にnullにする（discardStrings）ため、rawから引用符を取り除いて文字列値を得る。
-// require/dofileのモジュール名として使う簡単な文字列リテラルのみを想定しており、
-// エスケープシーケンスの解釈までは行わない。
-function unquoteRaw(raw: string): string {
-  if (raw.length >= 2) {
-    const first = raw.charAt(0);
-    const last = raw.charAt(raw.length - 1);
-    if ((first === '"' || first === "'") && first === last) {
-      return raw.slice(1, -1);
-    }
-  }
-  return raw;
+// 常にnullにする（discardStrings）ため、rawを解釈して文字列値を得る。
+// モジュール名はファイルパスになるため、値のバイト列をUTF-8として扱う。
+function unquoteRaw(raw: string, luaVersion: LuaVersion): string {
+  return bytesToUtf8(decodeLuaString(raw, luaVersion));
 }
 
-export function staticStringArgument(node: unknown): string | undefined {
+export function staticStringArgument(
+  node: unknown,
+  luaVersion: LuaVersion,
+): string | undefined {
   if (
     node !== null &&
     typeof node === "object" &&
     (node as Record<string, unknown>).type === "StringLiteral" &&
     typeof (node as Record<string, unknown>).raw === "string"
   ) {
-    return unquoteRaw((node as Record<string, unknown>).raw as string);
+    return unquoteRaw(
+      (node as Record<string, unknown>).raw as string,
+      luaVersion,
+    );
   }
   return undefined;
 }
@@ -70,39 +74,102 @@ function calleeName(node: unknown): string | undefined {
   return undefined;
 }
 
+/**
+ * require/dofile呼び出し（CallExpression / StringCallExpression の両構文）であれば、
+ * 呼び出しの種類とモジュール名を渡す引数のノードを返す。
+ */
+export function moduleCallArgument(
+  node: Record<string, unknown>,
+): { kind: "require" | "dofile"; argument: unknown } | undefined {
+  if (node.type !== "CallExpression" && node.type !== "StringCallExpression") {
+    return undefined;
+  }
+  const name = calleeName(node.base);
+  if (name !== "require" && name !== "dofile") {
+    return undefined;
+  }
+  if (node.type === "StringCallExpression") {
+    return { kind: name, argument: node.argument };
+  }
+  const args = node.arguments;
+  if (!Array.isArray(args) || args.length === 0) {
+    return undefined;
+  }
+  return { kind: name, argument: args[0] };
+}
+
 /**
  * ASTを走査してrequire/dofile呼び出し（CallExpression / StringCallExpression の両構文）を
  * 静的な文字列引数付きのものに限って列挙する。同一モジュールへの参照は重複したまま返す
  * （呼び出し側で重複排除する）。
  */
-export function findModuleReferences(ast: Chunk): ModuleReference[] {
+export function findModuleReferences(
+  ast: Chunk,
+  luaVersion: LuaVersion,
+): ModuleReference[] {
   const refs: ModuleReference[] = [];
 
   walk(ast, (node) => {
-    if (node.type === "CallExpression") {
-      const name = calleeName(node.base);
-      if (name !== "require" && name !== "dofile") {
-        return;
-      }
-      const args = node.arguments;
-      if (!Array.isArray(args) || args.length === 0) {
-        return;
-      }
-      const moduleName = staticStringArgument(args[0]);
-      if (moduleName !== undefined) {
-        refs.push({ kind: name, moduleName });
-      }
-    } else if (node.type === "StringCallExpression") {
-      const name = calleeName(node.base);
-      if (name !== "require" && name !== "dofile") {
-        return;
+    const call = moduleCallArgument(node);
+    const moduleName = call && staticStringArgument(call.argument, luaVersion);
+    if (call && moduleName !== undefined) {
+      refs.push({ kind: call.kind, moduleName });
+    }
+  });
+
+  return refs;
+}
+
+/**
+ * 関数で包まずに呼び出し元のスコープへ直接展開される参照先のモジュール名を列挙する
+ * （printerの展開方法の判定に対応する）。dofileは常にその場展開される。SLモードの
+ * requireは、戻り値を使わない単独の文と、`local x = require("m")`の形で
+ * `canSplice("m")`（モジュールが単一の式を返すreturn文で終わる）の場合に
+ * その場展開される。それ以外のrequireはIIFE・-mモードのrequire関数の中に包まれる。
+ */
+export function findSplicedModules(
+  ast: Chunk,
+  moduleLikeLua: boolean,
+  canSplice: (moduleName: string) => boolean,
+  luaVersion: LuaVersion,
+): Set<string> {
+  const spliced = new Set<string>();
+  const moduleNameOf = (node: unknown, kind: "require" | "dofile") => {
+    if (node === null || typeof node !== "object") {
+      return undefined;
+    }
+    const call = moduleCallArgument(node as Record<string, unknown>);
+    return call?.kind === kind
+      ? staticStringArgument(call.argument, luaVersion)
+      : undefined;
+  };
+
+  walk(ast, (node) => {
+    const dofile = moduleNameOf(node, "dofile");
+    if (dofile !== undefined) {
+      spliced.add(dofile);
+    }
+    if (moduleLikeLua) {
+      return;
+    }
+    if (node.type === "CallStatement") {
+      const required = moduleNameOf(node.expression, "require");
+      if (required !== undefined) {
+        spliced.add(required);
       }
-      const moduleName = staticStringArgument(node.argument);
-      if (moduleName !== undefined) {
-        refs.push({ kind: name, moduleName });
+    } else if (
+      (node.type === "LocalStatement" || node.type === "AssignmentStatement") &&
+      Array.isArray(node.variables) &&
+      node.variables.length === 1 &&
+      Array.isArray(node.init) &&
+      node.init.length === 1
+    ) {
+      const required = moduleNameOf(node.init[0], "require");
+      if (required !== undefined && canSplice(required)) {
+        spliced.add(required);
       }
     }
   });
 
-  return refs;
+  return spliced;
 }
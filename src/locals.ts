@@ -0,0 +1,123 @@
+// 連続するローカル宣言の結合（`local a=1 local b=2` → `local a,b=1,2`）。
+// Resolveパスのシンボル表をもとに、結合しても意味が変わらない`local`文の並びを求める。
+// - 初期化式が、並びの中の先行する文で宣言したローカルを参照しない
+//   （結合すると、宣言前の外側の変数・グローバルを指すことになる）
+// - 初期化式の数が変数の数を超えない（余った式の評価が並びの途中に入るため）
+// - 複数の値を返しうる式（関数呼び出し・`...`）で足りない変数を埋める文は並びの最後に限る
+//
+// 初期化式は結合しても同じ順に評価されるため、副作用の順序は変わらない。
+// require・dofileを含む文はprinterが別の形で展開するため結合しない。
+// ASTは複数のMinifier（ParseCache）で共有されるため変更せず、結合はprinter
+// （MinifyFile）が出力時に行う。
+import Parser from "luaparse";
+import { Chunk } from "./ast2lua";
+import { blocksOf } from "./dce";
+import { moduleCallArgument, walk } from "./linker";
+import { ResolveResult, Symbol } from "./resolver";
+
+export interface LocalMerges {
+  // 並びの先頭の文 → 並びの全ての文（先頭を含む、ソース上の順）
+  readonly runs: ReadonlyMap<Parser.Node, readonly Parser.LocalStatement[]>;
+  // 先頭の文に結合され、単独では出力しない文
+  readonly merged: ReadonlySet<Parser.Node>;
+}
+
+/**
+ * 複数の値を返しうる式（関数呼び出し・`...`）か。式の並びの最後では全ての値が
+ * 使われる。
+ */
+export function isMultiValueExpression(expr: Parser.Expression): boolean {
+  return (
+    expr.type === "CallExpression" ||
+    expr.type === "StringCallExpression" ||
+    expr.type === "TableCallExpression" ||
+    expr.type === "VarargLiteral"
+  );
+}
+
+/**
+ * モジュールの結合できるローカル宣言の並びを求める。`skipped`は出力しない文
+ * （DCEで取り除いたもの）で、その前後の文は出力では隣り合うため結合の対象になる。
+ */
+export function planLocalMerges(
+  ast: Chunk,
+  resolved: ResolveResult,
+  skipped: ReadonlySet<Parser.Node>,
+): LocalMerges {
+  const runs = new Map<Parser.Node, Parser.LocalStatement[]>();
+  const merged = new Set<Parser.Node>();
+
+  const containsModuleCall = (statement: Parser.LocalStatement) => {
+    let found = false;
+    walk(statement.init, (node) => {
+      if (moduleCallArgument(node)) {
+        found = true;
+      }
+      return !found;
+    });
+    return found;
+  };
+  // 初期化式が`declared`のいずれかのローカルを参照するか
+  const refersTo = (
+    statement: Parser.LocalStatement,
+    declared: ReadonlySet<Symbol>,
+  ) => {
+    let found = false;
+    walk(statement.init, (node) => {
+      const n = node as unknown as Parser.Node;
+      if (n.type === "Identifier") {
+        const symbol = resolved.symbolOf(n);
+        found ||= symbol !== undefined && declared.has(symbol);
+      }
+      return !found;
+    });
+    return found;
+  };
+  const isMergeable = (statement: Parser.LocalStatement) =>
+    statement.init.length <= statement.variables.length &&
+    !containsModuleCall(statement);
+  // 後ろに文を結合できない（足りない変数を複数の値を返す式で埋める）文か
+  const endsRun = (statement: Parser.LocalStatement) =>
+    statement.init.length > 0 &&
+    statement.init.length < statement.variables.length &&
+    isMultiValueExpression(statement.init[statement.init.length - 1]);
+
+  const mergeBlock = (body: Parser.Statement[]) => {
+    let run: Parser.LocalStatement[] = [];
+    let declared = new Set<Symbol>();
+    const flush = () => {
+      if (run.length > 1) {
+        runs.set(run[0], run);
+        run.slice(1).forEach((statement) => merged.add(statement));
+      }
+      run = [];
+      declared = new Set();
+    };
+    body.forEach((statement) => {
+      if (skipped.has(statement)) {
+        return;
+      }
+      if (statement.type !== "LocalStatement" || !isMergeable(statement)) {
+        flush();
+        return;
+      }
+      const last = run.length > 0 ? run[run.length - 1] : undefined;
+      if (last && (endsRun(last) || refersTo(statement, declared))) {
+        flush();
+      }
+      run.push(statement);
+      statement.variables.forEach((variable) => {
+        const symbol = resolved.symbolOf(variable);
+        if (symbol) {
+          declared.add(symbol);
+        }
+      });
+    });
+    flush();
+  };
+
+  walk(ast, (node) => {
+    blocksOf(node as unknown as Parser.Node).forEach(mergeBlock);
+  });
+  return { runs, merged };
+}
@@ -0,0 +1,282 @@
+// Luaの文字列リテラルの解釈（エスケープ・長括弧）と、最短の表記への再符号化。
+//
+// Luaの文字列はバイト列のため、値は各文字が1バイト（0〜255）を表すJavaScriptの
+// 文字列（"バイト文字列"）で扱う。ソース上のバイト以外の文字はUTF-8のバイト列になる。
+//
+// エスケープの解釈は対象のLuaバージョンで異なる。`\x`・`\z`は5.2以降、`\u{}`は
+// 5.3とLuaJITにしか無く、5.1ではバックスラッシュに続く未知の文字はその文字自体として
+// 読まれる（5.1の`"\x41"`は`"x41"`）。出力する表記は全バージョン共通のエスケープだけを使う。
+// 5.1は水準0の長括弧の中の`[[`もエラーにする（"nesting of [[...]] is deprecated"）。
+import { LuaVersion } from "./luaversion";
+
+/**
+ * テキストをUTF-8で符号化したバイト文字列にする。
+ */
+export function utf8ToBytes(text: string): string {
+  return Buffer.from(text, "utf8").toString("latin1");
+}
+
+/**
+ * バイト文字列をUTF-8として復号する（不正なバイト列はU+FFFDになる）。
+ */
+export function bytesToUtf8(bytes: string): string {
+  return Buffer.from(bytes, "latin1").toString("utf8");
+}
+
+// Lua 5.3の\u{XXX}と同じ、最大31bitまでの拡張UTF-8による符号化
+function encodeUtf8CodePoint(codePoint: number): string {
+  if (codePoint < 0x80) {
+    return String.fromCharCode(codePoint);
+  }
+  const bytes: number[] = [];
+  let limit = 0x3f;
+  let rest = codePoint;
+  do {
+    bytes.unshift(0x80 | (rest & 0x3f));
+    rest = Math.floor(rest / 64);
+    limit >>= 1;
+  } while (rest > limit);
+  bytes.unshift(((~limit << 1) & 0xff) | rest);
+  return String.fromCharCode(...bytes);
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  a: "\x07",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  v: "\v",
+  "\\": "\\",
+  '"': '"',
+  "'": "'",
+};
+
+function decodeLongString(raw: string): string | undefined {
+  const open = /^\[(=*)\[/.exec(raw);
+  if (!open || !raw.endsWith("]" + open[1] + "]")) {
+    return undefined;
+  }
+  const content = raw
+    .slice(open[0].length, raw.length - open[0].length)
+    // 行末の表記（\r\n・\n\r・\r）は\nにそろえ、開き括弧直後の改行は取り除く
+    .replace(/\r\n|\n\r|\r/g, "\n")
+    .replace(/^\n/, "");
+  return utf8ToBytes(content);
+}
+
+/**
+ * 文字列リテラルの表記（引用符付き・長括弧）を、`luaVersion`のエスケープの規則で
+ * 解釈し、値のバイト文字列を返す。不正なエスケープシーケンスを含む場合は例外を投げる。
+ */
+export function decodeLuaString(raw: string, luaVersion: LuaVersion): string {
+  const long = decodeLongString(raw);
+  if (long !== undefined) {
+    return long;
+  }
+  const quote = raw.charAt(0);
+  if ((quote !== '"' && quote !== "'") || !raw.endsWith(quote)) {
+    throw new SyntaxError("Invalid string literal: " + raw);
+  }
+  const body = raw.slice(1, -1);
+  let result = "";
+  let literalStart = 0;
+  let i = 0;
+  const invalid = () =>
+    new SyntaxError("Invalid escape sequence in string literal: " + raw);
+  const hasHexEscape = luaVersion !== "5.1";
+  const hasUnicodeEscape = luaVersion === "5.3" || luaVersion === "LuaJIT";
+  while (i < body.length) {
+    if (body.charAt(i) !== "\\") {
+      i++;
+      continue;
+    }
+    result += utf8ToBytes(body.slice(literalStart, i));
+    const c = body.charAt(i + 1);
+    i += 2;
+    if (c in SIMPLE_ESCAPES) {
+      result += SIMPLE_ESCAPES[c];
+    } else if (c === "\n" || c === "\r") {
+      // バックスラッシュ直後の改行（\r\n・\n\rは1つの改行）
+      const next = body.charAt(i);
+      if ((next === "\n" || next === "\r") && next !== c) {
+        i++;
+      }
+      result += "\n";
+    } else if (c === "x" && hasHexEscape) {
+      const hex = /^[0-9a-fA-F]{2}/.exec(body.slice(i));
+      if (!hex) {
+        throw invalid();
+      }
+      result += String.fromCharCode(parseInt(hex[0], 16));
+      i += 2;
+    } else if (c === "z" && hasHexEscape) {
+      // 続く空白文字（改行を含む）を読み飛ばす
+      const spaces = /^[ \t\n\v\f\r]*/.exec(body.slice(i));
+      i += spaces ? spaces[0].length : 0;
+    } else if (c === "u" && hasUnicodeEscape) {
+      const codePoint = /^\{([0-9a-fA-F]+)\}/.exec(body.slice(i));
+      if (!codePoint || parseInt(codePoint[1], 16) >= 2 ** 31) {
+        throw invalid();
+      }
+      result += encodeUtf8CodePoint(parseInt(codePoint[1], 16));
+      i += codePoint[0].length;
+    } else if (/[0-9]/.test(c)) {
+      const decimal = /^[0-9]{1,3}/.exec(body.slice(i - 1));
+      if (!decimal || Number(decimal[0]) > 255) {
+        throw invalid();
+      }
+      result += String.fromCharCode(Number(decimal[0]));
+      i += decimal[0].length - 1;
+    } else if (luaVersion === "5.1") {
+      // 続く文字をそのまま値にする（バックスラッシュだけを読み飛ばす）
+      literalStart = i - 1;
+      continue;
+    } else {
+      throw invalid();
+    }
+    literalStart = i;
+  }
+  return result + utf8ToBytes(body.slice(literalStart));
+}
+
+// ソース上に書き出す1文字。`byte`はそのまま書けずエスケープが必要なバイト
+type Character = { text: string } | { byte: number };
+
+/**
+ * バイト文字列を、ソース上に書き出す文字の列に分ける。正しいUTF-8の並びは
+ * 1文字（そのまま書ける）にまとめ、制御文字・UTF-8として不正なバイトは
+ * エスケープが必要なバイトにする。
+ */
+function splitCharacters(bytes: string): Character[] {
+  const chars: Character[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    const lead = bytes.charCodeAt(i);
+    const length =
+      lead >= 0xc2 && lead <= 0xdf
+        ? 2
+        : lead >= 0xe0 && lead <= 0xef
+          ? 3
+          : lead >= 0xf0 && lead <= 0xf4
+            ? 4
+            : 1;
+    if (length > 1) {
+      const sequence = bytes.slice(i, i + length);
+      const decoded = bytesToUtf8(sequence);
+      // 過長な符号化・サロゲートなどはU+FFFDに置き換わり、再符号化で一致しない
+      if (utf8ToBytes(decoded) === sequence) {
+        chars.push({ text: decoded });
+        i += length;
+        continue;
+      }
+    }
+    chars.push(
+      (lead < 0x20 && lead !== 0x09) || lead >= 0x7f
+        ? { byte: lead }
+        : { text: bytes.charAt(i) },
+    );
+    i++;
+  }
+  return chars;
+}
+
+const NAMED_ESCAPES: Partial<Record<number, string>> = {
+  0x07: "\\a",
+  0x08: "\\b",
+  0x0c: "\\f",
+  0x0a: "\\n",
+  0x0d: "\\r",
+  0x0b: "\\v",
+};
+
+function quoteWith(chars: Character[], quote: string): string {
+  let result = quote;
+  chars.forEach((char, ix) => {
+    if ("text" in char) {
+      result +=
+        char.text === quote || char.text === "\\"
+          ? "\\" + char.text
+          : char.text;
+      return;
+    }
+    const named = NAMED_ESCAPES[char.byte];
+    if (named) {
+      result += named;
+      return;
+    }
+    // 10進のエスケープは\xより短いか同じ長さになる。直後が数字の場合は
+    // 続けて読まれないよう3桁にする。
+    const next = ix + 1 < chars.length ? chars[ix + 1] : undefined;
+    const nextIsDigit =
+      next !== undefined && "text" in next && /^[0-9]/.test(next.text);
+    result += "\\" + String(char.byte).padStart(nextIsDigit ? 3 : 1, "0");
+  });
+  return result + quote;
+}
+
+// 長括弧の文字列はエスケープできないため、改行以外のエスケープが必要なバイト
+// （\rは行末の表記として読み替えられるため含む）がある場合は使えない。
+function longBracketWith(
+  chars: Character[],
+  luaVersion: LuaVersion,
+): string | undefined {
+  if (chars.some((char) => "byte" in char && char.byte !== 0x0a)) {
+    return undefined;
+  }
+  const content = chars
+    .map((char) => ("text" in char ? char.text : "\n"))
+    .join("");
+  let level = luaVersion === "5.1" && content.includes("[[") ? "=" : "";
+  while ((content + "]").includes("]" + level + "]")) {
+    level += "=";
+  }
+  // 開き括弧直後の改行は読み飛ばされるため、改行で始まる場合はもう1つ加える
+  return (
+    "[" +
+    level +
+    "[" +
+    (content.startsWith("\n") ? "\n" : "") +
+    content +
+    "]" +
+    level +
+    "]"
+  );
+}
+
+/**
+ * バイト文字列を、'...'・"..."・長括弧のうち`luaVersion`で読める最も短い表記の
+ * 文字列リテラルにする。同じ長さの場合は`preferredQuote`の引用符を優先する。
+ */
+export function encodeLuaString(
+  bytes: string,
+  luaVersion: LuaVersion,
+  preferredQuote: '"' | "'" = '"',
+): string {
+  const chars = splitCharacters(bytes);
+  const otherQuote = preferredQuote === '"' ? "'" : '"';
+  const candidates = [
+    quoteWith(chars, preferredQuote),
+    quoteWith(chars, otherQuote),
+    longBracketWith(chars, luaVersion),
+  ].filter((c): c is string => c !== undefined);
+  return candidates.reduce((a, b) => (b.length < a.length ? b : a));
+}
+
+/**
+ * 文字列リテラルを、`luaVersion`での値を変えない最短の表記にする。どの表記も
+ * ソースの表記より短くならない場合はソースの表記のまま出力する。
+ */
+export function formatStringLiteral(
+  raw: string,
+  luaVersion: LuaVersion,
+): string {
+  const quote = raw.charAt(0) === "'" ? "'" : '"';
+  const encoded = encodeLuaString(
+    decodeLuaString(raw, luaVersion),
+    luaVersion,
+    quote,
+  );
+  return encoded.length < raw.length ? encoded : raw;
+}
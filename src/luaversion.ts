@@ -0,0 +1,167 @@
+// 出力先のLuaバージョン（パース・出力の両方の前提になる）と、バージョンごとの
+// 文法の差異を扱う。
+import Parser, { Options } from "luaparse";
+import { Chunk } from "./ast2lua";
+import { walk } from "./linker";
+
+export type LuaVersion = Options["luaVersion"];
+
+export const LUA_VERSIONS: readonly LuaVersion[] = [
+  "5.1",
+  "5.2",
+  "5.3",
+  "LuaJIT",
+];
+
+// Lua 5.3で追加された演算子。5.1/5.2/LuaJITの文法には存在しない。
+const LUA53_BINARY_OPERATORS: Record<string, string> = {
+  "//": "floor division",
+  "&": "bitwise and",
+  "|": "bitwise or",
+  "~": "bitwise xor",
+  "<<": "left shift",
+  ">>": "right shift",
+};
+const LUA53_UNARY_OPERATORS: Record<string, string> = {
+  "~": "bitwise not",
+};
+
+export function isBinaryOperatorSupported(
+  version: LuaVersion,
+  operator: string,
+): boolean {
+  return version === "5.3" || !(operator in LUA53_BINARY_OPERATORS);
+}
+
+export function isUnaryOperatorSupported(
+  version: LuaVersion,
+  operator: string,
+): boolean {
+  return version === "5.3" || !(operator in LUA53_UNARY_OPERATORS);
+}
+
+interface UnsupportedSyntax {
+  description: string;
+  node: Parser.Node;
+}
+
+/**
+ * `version`の文法に存在しない構文のうち、ソース上で最初に現れるものを探す。
+ * （5.3の文法でパースしたASTを対象にする）
+ */
+function findUnsupportedSyntax(
+  ast: Chunk,
+  version: LuaVersion,
+): UnsupportedSyntax | undefined {
+  const found: UnsupportedSyntax[] = [];
+  walk(ast, (n) => {
+    const node = n as unknown as Parser.Node;
+    if (
+      node.type === "BinaryExpression" &&
+      !isBinaryOperatorSupported(version, node.operator)
+    ) {
+      found.push({
+        description:
+          "'" +
+          node.operator +
+          "' (" +
+          LUA53_BINARY_OPERATORS[node.operator] +
+          ")",
+        node,
+      });
+    } else if (
+      node.type === "UnaryExpression" &&
+      !isUnaryOperatorSupported(version, node.operator)
+    ) {
+      found.push({
+        description:
+          "'" +
+          node.operator +
+          "' (" +
+          LUA53_UNARY_OPERATORS[node.operator] +
+          ")",
+        node,
+      });
+    } else if (
+      version === "5.1" &&
+      (node.type === "GotoStatement" || node.type === "LabelStatement")
+    ) {
+      found.push({
+        description: node.type === "GotoStatement" ? "'goto'" : "label",
+        node,
+      });
+    }
+  });
+  const startOf = (syntax: UnsupportedSyntax) => syntax.node.loc?.start;
+  found.sort(
+    (a, b) =>
+      (startOf(a)?.line ?? 0) - (startOf(b)?.line ?? 0) ||
+      (startOf(a)?.column ?? 0) - (startOf(b)?.column ?? 0),
+  );
+  return found[0];
+}
+
+// 5.3の文法（5.1/5.2/LuaJITの上位互換に近い）で再パースし、対象バージョンに
+// 存在しない構文を探す。5.3でもパースできない場合は原因を特定できない。
+function findUnsupportedSyntaxIn(
+  code: string,
+  settings: Partial<Options>,
+  version: LuaVersion,
+): UnsupportedSyntax | undefined {
+  let ast: Chunk;
+  try {
+    ast = Parser.parse(code, {
+      ...settings,
+      luaVersion: "5.3",
+      locations: true,
+    });
+  } catch {
+    return undefined;
+  }
+  return findUnsupportedSyntax(ast, version);
+}
+
+/**
+ * `settings.luaVersion`の文法でソースをパースする。パースエラーはどのファイルの
+ * エラーかわかるようにファイルパスを前置したSyntaxErrorとして投げ直す。
+ *
+ * 対象バージョンに存在しない構文（5.1での`//`や`goto`など）が原因のエラーは、
+ * luaparseのメッセージ（"unexpected symbol"など）では原因がわかりにくいため、
+ * 5.3の文法で再パースして原因の構文とその位置を特定したメッセージにする。
+ */
+export function parseLua(
+  code: string,
+  settings: Partial<Options>,
+  filePath: string,
+): Chunk {
+  try {
+    return Parser.parse(code, settings);
+  } catch (e) {
+    if (!(e instanceof SyntaxError)) {
+      throw e;
+    }
+    // luaparseは対象バージョン省略時に5.1として扱う
+    const version = settings.luaVersion ?? "5.1";
+    const unsupported =
+      version === "5.3"
+        ? undefined
+        : findUnsupportedSyntaxIn(code, settings, version);
+    if (unsupported) {
+      const start = unsupported.node.loc?.start;
+      throw new SyntaxError(
+        filePath +
+          ": [" +
+          String(start?.line) +
+          ":" +
+          String(start?.column) +
+          "] " +
+          unsupported.description +
+          " is not supported in Lua " +
+          version,
+      );
+    }
+    // luaparseのエラーは"[行:列] メッセージ"の形でファイル名を含まないため、
+    // どのモジュールのエラーかわかるようにファイルパスを前置する。
+    throw new SyntaxError(filePath + ": " + e.message);
+  }
+}
@@ -2,15 +2,126 @@ import Parser, { Options } from "luaparse";
 import path from "path";
 import fs from "fs";
 import { SourceNode } from "source-map";
-import { Chunk, MinifyFile } from "./ast2lua";
-import { findModuleReferences } from "./linker";
-import { resolveScopes, ResolveResult } from "./resolver";
+import { Chunk, INDENT, isPreservedComment, MinifyFile } from "./ast2lua";
+import { findModuleReferences, findSplicedModules } from "./linker";
+import {
+  MAX_LOCAL_VARIABLES,
+  maxActiveLocals,
+  resolveScopes,
+  ResolveResult,
+  Symbol,
+} from "./resolver";
 import { assignRenames, RenameResult } from "./renamer";
+import { LuaVersion, parseLua } from "./luaversion";
+import { decodeLuaString } from "./luastring";
+import { collectConstantReferences, Defines, LuaConstant } from "./defines";
+import { collectFoldedExpressions } from "./folding";
+import {
+  DeadCode,
+  DeadCodeRemoval,
+  expandDropCalls,
+  findDeadCode,
+} from "./dce";
+import {
+  collectWrittenGlobals,
+  GlobalAlias,
+  GlobalAliases,
+  planGlobalAliases,
+} from "./aliases";
+import { planStringPool, StringPool } from "./stringpool";
+import { fieldNameMatcher, FieldMangling, planFieldMangling } from "./fields";
+import { NameCache } from "./namecache";
+import { LocalMerges, planLocalMerges } from "./locals";
+import { applyDirectives } from "./directives";
+import { InputSourceMap, OriginalPosition } from "./inputmap";
+import { buildNameMap, NameMap } from "./names";
 
 export interface MinifierMode {
   moduleLikeLua: boolean;
   // 識別子の短縮(リネーム)を行うかどうか。デバッグ用途でfalseにできる。省略時はtrue扱い。
   rename?: boolean;
+  // require/dofileのモジュール名からファイルを探すテンプレートの一覧（package.path形式の
+  // 各要素。`?`をモジュール名の"."を"/"に置き換えたものに置換する）。エントリファイルの
+  // ディレクトリを基準に先頭から順に探し、最初に見つかったものを使う。省略時は["?.lua"]。
+  searchPath?: readonly string[];
+  // コンパイル時定数として扱うグローバル変数とその値（--define NAME=value）
+  defines?: Defines;
+  // 繰り返し参照されるグローバルのフィールド（`screen.drawRect`など）をチャンク先頭の
+  // ローカルに代入して参照を置き換えるかどうか。リネームを行わない場合は無視する。
+  aliasGlobals?: boolean;
+  // 短縮するテーブルのフィールド名（正規表現のソース、またはフィールド名の一覧）。
+  // Stormworks API・標準ライブラリのフィールドは一致しても短縮しない。
+  mangleFields?: string | readonly string[];
+  // ローカル変数の短縮名に使わない名前（実行時に注入されるコードが使うグローバルなど）
+  reserve?: readonly string[];
+  // 短縮せず元の名前のままにするローカル変数の名前（正規表現のソース）。
+  // オブジェクトの場合はモジュールのファイル名（エントリのディレクトリからの
+  // "/"区切りの相対パス）ごとに指定する。
+  keepNames?: string | Readonly<Record<string, string>>;
+  // 文ごと取り除く呼び出しの関数のパス（"debug.log"・"log.trace"）とプリセット
+  // （"@stormworks"）。グローバル変数か、requireしたモジュールのメンバーに限る。
+  dropCalls?: readonly string[];
+  // 読みやすい形で出力するかどうか（ブロックごとの字下げ・1行に1文・演算子の前後の
+  // 空白）。リネームを行わない設定と組み合わせると、結合後のコードを読むのに使える。
+  pretty?: boolean;
+}
+
+export const DEFAULT_SEARCH_PATH: readonly string[] = ["?.lua"];
+
+// 他のツールが生成したモジュールの、入力のSource Mapを指すコメント
+// （`--# sourceMappingURL=main.lua.map`）
+const SOURCE_MAPPING_URL = /--\s*(?:\/\/)?[#@]\s*sourceMappingURL=([^\s\]]+)/g;
+
+/**
+ * package.path形式の文字列（"?.lua;?/init.lua;lib/?.lua"）をテンプレートの一覧にする。
+ */
+export function parseSearchPath(value: string): string[] {
+  return value.split(";").filter((template) => template !== "");
+}
+
+/**
+ * Linkパスがモジュールのソースを読み込むための関数。`filePath`はエントリファイルの
+ * ディレクトリを基準に解決したパスで、ファイルが存在しない場合はundefinedを返す。
+ * 既定（`readModuleFile`）は実ファイルを読むが、保存前のエディタバッファなど
+ * ディスク上に無いソースを渡したい場合は差し替えられる。
+ */
+export type ModuleLoader = (filePath: string) => string | undefined;
+
+export const readModuleFile: ModuleLoader = (filePath) => {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+  return fs.readFileSync(filePath).toString();
+};
+
+export const DEFAULT_LUAPARSE_SETTINGS: Partial<Options> = {
+  locations: true,
+  luaVersion: "5.3",
+  ranges: true,
+  scope: true,
+};
+
+/**
+ * 複数のエントリを1回の実行でビルドする際に、共有モジュールを一度だけ
+ * パースするためのキャッシュ。ファイルパス・パース設定・ソースの内容が
+ * すべて一致する場合のみキャッシュしたASTを返す（watchモードで内容が
+ * 変わったファイルは再パースし、古いASTは置き換える）。
+ *
+ * キャッシュしたASTは複数のMinifierで共有されるため、変更してはならない。
+ */
+export class ParseCache {
+  private readonly entries = new Map<string, { code: string; ast: Chunk }>();
+
+  parse(code: string, settings: Partial<Options>, filePath: string): Chunk {
+    const key = filePath + "\0" + JSON.stringify(settings);
+    const cached = this.entries.get(key);
+    if (cached?.code === code) {
+      return cached.ast;
+    }
+    const ast = parseLua(code, settings, filePath);
+    this.entries.set(key, { code, ast });
+    return ast;
+  }
 }
 
 const NO_RENAME: RenameResult = {
@@ -27,6 +138,13 @@ export class Minifier {
   readonly entryModule: string;
   readonly mode: MinifierMode;
   readonly luaParseSettings: Partial<Options>;
+  readonly loader: ModuleLoader;
+  readonly parseCache: ParseCache;
+  // 前回のビルドの短縮名（--name-cache）。Renameパスで優先して使い、
+  // このビルドで割り当てた名前で更新する。
+  readonly nameCache: NameCache | undefined;
+  // パース・出力の前提にする対象Luaバージョン（luaParseSettingsから決まる）
+  readonly luaVersion: LuaVersion;
 
   // Linkパスで解決されたモジュール名を、依存されている側が先に来る順序で並べたもの
   private readonly linkOrder: string[] = [];
@@ -34,11 +152,43 @@ export class Minifier {
   private readonly moduleResolve = new Map<string, ResolveResult>();
   // モジュールごとのRenameパスの結果（初回アクセス時に計算しキャッシュする）
   private readonly renameCache = new Map<string, RenameResult>();
+  // モジュールごとの、コンパイル時定数に置き換えるグローバル参照とその値
+  private readonly moduleConstants = new Map<
+    string,
+    Map<Parser.Identifier, LuaConstant>
+  >();
+  // モジュールごとの、値が定数に決まる演算式とその置き換え先（定数畳み込み）
+  private readonly moduleFoldings = new Map<
+    string,
+    Map<Parser.Expression, Parser.Expression>
+  >();
+  // モジュールごとの、DCEで出力しない文
+  private readonly moduleDeadCode = new Map<string, DeadCode>();
+  // モジュールごとの、1つの`local`文に結合する連続したローカル宣言
+  private readonly moduleLocalMerges = new Map<string, LocalMerges>();
+  // モジュールごとの、ローカルに置き換えるグローバルのフィールド参照
+  private readonly moduleAliases = new Map<string, GlobalAliases>();
+  // モジュールごとの、参照する文字列プール（SLモードでは全モジュールで共有する）と、
+  // チャンクの先頭で宣言する文字列プール
+  private readonly moduleStringPool = new Map<string, StringPool>();
+  private readonly declaredStringPool = new Map<string, StringPool>();
+  // フィールド名の短縮（`MinifierMode.mangleFields`）
+  private fieldMangling: FieldMangling | undefined;
+  // 文字列プールごとのRenameパスの結果
+  private readonly stringPoolRenames = new Map<StringPool, RenameResult>();
+  // Linkパスがモジュールを探すために読み込もうとした全ファイルパス
+  // （見つからなかった探索候補も含む）
+  private readonly probedFilePaths = new Set<string>();
+  // モジュールに付いている入力のSource Map（他のツールが生成したモジュール）
+  private readonly moduleInputMaps = new Map<string, InputSourceMap>();
 
   constructor(
     entryFilePath: string,
     luaParseSettings: Partial<Options>,
     mode: MinifierMode,
+    loader: ModuleLoader = readModuleFile,
+    parseCache: ParseCache = new ParseCache(),
+    nameCache?: NameCache,
   ) {
     this.identifiersInUse = new Set<string>();
     this.moduleSourceText = new Map<string, string>();
@@ -46,6 +196,11 @@ export class Minifier {
     this.moduleNameAndFileName = new Map<string, string>();
     this.luaParseSettings = luaParseSettings;
     this.mode = mode;
+    this.loader = loader;
+    this.parseCache = parseCache;
+    this.nameCache = nameCache;
+    // luaparseは対象バージョン省略時に5.1として扱うため、それに合わせる
+    this.luaVersion = luaParseSettings.luaVersion ?? "5.1";
     const pn = path.parse(entryFilePath);
     this.dir = pn.dir;
     this.entryModule = pn.name;
@@ -59,19 +214,17 @@ export class Minifier {
 
     const entryComments = this.moduleAST.get(this.entryModule)?.comments;
     if (entryComments) {
-      entryComments
-        .filter((v) => v.raw.includes("--#") || v.raw.includes("[[#"))
-        .forEach((comment) => {
-          parts.push(
-            new SourceNode(
-              comment.loc?.start.line ?? null,
-              comment.loc?.start.column ?? null,
-              this.moduleNameAndFileName.get(this.entryModule) ?? null,
-              comment.raw,
-            ),
-            "\n",
-          );
-        });
+      entryComments.filter(isPreservedComment).forEach((comment) => {
+        parts.push(
+          new SourceNode(
+            comment.loc?.start.line ?? null,
+            comment.loc?.start.column ?? null,
+            this.moduleNameAndFileName.get(this.entryModule) ?? null,
+            comment.raw,
+          ),
+          "\n",
+        );
+      });
     }
 
     if (this.mode.moduleLikeLua) {
@@ -88,16 +241,36 @@ export class Minifier {
         result.setSourceContent(fileName, v);
       }
     });
+    // 入力のSource Mapの元のソース（.ts・.tlなど）の内容も引き継ぐ
+    this.moduleInputMaps.forEach((inputMap) => {
+      inputMap.sources.forEach((source, ix) => {
+        const content = inputMap.sourcesContent[ix];
+        if (typeof content === "string") {
+          result.setSourceContent(source, content);
+        }
+      });
+    });
 
     return result;
   }
 
+  /**
+   * Linkパスが読み込んだ全ファイルのパスを返す（watchモードの監視対象）。
+   * Linkパスが途中で失敗した場合も、それまでに読み込もうとしたファイル
+   * （パースエラーになったファイル・見つからなかったファイルを含む）を返す。
+   * 探索パスのうち見つからなかった候補も含むため、後から作られたファイルで
+   * モジュールの解決先が変わる場合も検知できる。
+   */
+  linkedFilePaths(): string[] {
+    return [...this.probedFilePaths];
+  }
+
   /**
    * dofileの呼び出し箇所ごとに、キャッシュ済みASTから新規にSourceNodeを作り直す。
    * 同じSourceNodeインスタンスを複数箇所へ挿入すると壊れるため、常に作り直す（#18）。
    */
-  printModuleInline(moduleName: string): SourceNode {
-    return this.printModule(moduleName);
+  printModuleInline(moduleName: string, depth = 0): SourceNode {
+    return this.printModule(moduleName, depth);
   }
 
   /**
@@ -107,6 +280,7 @@ export class Minifier {
    */
   splitModuleForStatementSplice(
     moduleName: string,
+    depth = 0,
   ): { statements: SourceNode; finalExpression: SourceNode } | undefined {
     const ast = this.moduleAST.get(moduleName);
     const fileName = this.moduleNameAndFileName.get(moduleName);
@@ -119,9 +293,169 @@ export class Minifier {
       ast,
       this,
       this.mode,
+      depth,
     ).parseAsStatementsAndFinalExpression(moduleName === this.entryModule);
   }
 
+  /**
+   * `identifier`がコンパイル時定数（`MinifierMode.defines`）への参照であれば、
+   * 置き換える値を返す（nilはnull）。定数でなければundefinedを返す。
+   */
+  constantOf(
+    moduleName: string,
+    identifier: Parser.Identifier,
+  ): LuaConstant | undefined {
+    return this.moduleConstants.get(moduleName)?.get(identifier);
+  }
+
+  /**
+   * `expression`が値の定数に決まる演算式であれば、置き換え先の式を返す。
+   */
+  foldedExpressionOf(
+    moduleName: string,
+    expression: Parser.Expression,
+  ): Parser.Expression | undefined {
+    return this.moduleFoldings.get(moduleName)?.get(expression);
+  }
+
+  /**
+   * `node`（文・if文の節）がDCEで取り除かれ、出力しないものであればtrueを返す。
+   */
+  isDeadCode(moduleName: string, node: Parser.Node): boolean {
+    return this.moduleDeadCode.get(moduleName)?.nodes.has(node) ?? false;
+  }
+
+  /**
+   * `statement`が連続するローカル宣言を結合した並びの先頭であれば、並びの
+   * 全ての文を返す。
+   */
+  localRunOf(
+    moduleName: string,
+    statement: Parser.LocalStatement,
+  ): readonly Parser.LocalStatement[] | undefined {
+    return this.moduleLocalMerges.get(moduleName)?.runs.get(statement);
+  }
+
+  /**
+   * `statement`が先頭の`local`文に結合され、単独では出力しないものであればtrueを返す。
+   */
+  isMergedLocal(moduleName: string, statement: Parser.Statement): boolean {
+    return (
+      this.moduleLocalMerges.get(moduleName)?.merged.has(statement) ?? false
+    );
+  }
+
+  /**
+   * `expression`をグローバルのフィールド参照のエイリアスに置き換える場合、
+   * 置き換え先の識別子を返す。
+   */
+  globalAliasOf(
+    moduleName: string,
+    expression: Parser.MemberExpression,
+  ): Parser.Identifier | undefined {
+    return this.moduleAliases.get(moduleName)?.references.get(expression);
+  }
+
+  /**
+   * モジュールのチャンクの先頭で宣言するエイリアスの一覧を返す。
+   */
+  globalAliasesOf(moduleName: string): readonly GlobalAlias[] {
+    return this.moduleAliases.get(moduleName)?.aliases ?? [];
+  }
+
+  /**
+   * フィールド名`name`を短縮する場合、短縮名を返す。
+   */
+  mangledFieldName(name: string): string | undefined {
+    return this.fieldMangling?.names.get(name);
+  }
+
+  /**
+   * `literal`がフィールド名として短縮するキー（`t["field"]`）であれば、短縮名を返す。
+   */
+  mangledFieldLiteral(literal: Parser.StringLiteral): string | undefined {
+    return this.fieldMangling?.literals.has(literal)
+      ? this.fieldMangling.names.get(
+          decodeLuaString(literal.raw, this.luaVersion),
+        )
+      : undefined;
+  }
+
+  /**
+   * `literal`を文字列プールのローカルに置き換える場合、そのローカルの名前を返す。
+   */
+  pooledStringOf(
+    moduleName: string,
+    literal: Parser.StringLiteral,
+  ): string | undefined {
+    const pool = this.moduleStringPool.get(moduleName);
+    const reference = pool?.references.get(literal);
+    if (!pool || !reference) {
+      return undefined;
+    }
+    return this.stringPoolRenames.get(pool)?.nameOf(reference);
+  }
+
+  /**
+   * モジュールのチャンクの先頭で宣言する文字列プールのローカルを返す
+   * （`value`は値のバイト文字列、`declaration`は最初の出現箇所）。
+   */
+  pooledStringsDeclaredIn(
+    moduleName: string,
+  ): { name: string; value: string; declaration: Parser.Identifier }[] {
+    const pool = this.declaredStringPool.get(moduleName);
+    const rename = pool && this.stringPoolRenames.get(pool);
+    if (!pool || !rename) {
+      return [];
+    }
+    return pool.strings.map(({ value, symbol }) => ({
+      name: rename.nameOf(symbol.declaration) ?? symbol.name,
+      value,
+      declaration: symbol.declaration,
+    }));
+  }
+
+  /**
+   * DCEで取り除いたコードの一覧を、モジュールのファイル名とともに返す。
+   */
+  deadCodeRemovals(): { fileName: string; removal: DeadCodeRemoval }[] {
+    return this.linkOrder.flatMap((moduleName) =>
+      (this.moduleDeadCode.get(moduleName)?.removals ?? []).map((removal) => ({
+        fileName: this.moduleFileName(moduleName),
+        removal,
+      })),
+    );
+  }
+
+  /**
+   * 短縮名の対応表（.names.json）を作る。`file`は出力ファイル名。
+   * `parse()`の後に呼ぶ。
+   */
+  nameMap(file: string): NameMap {
+    return buildNameMap(
+      file,
+      this.linkOrder.map((moduleName) => {
+        const resolved = this.moduleResolve.get(moduleName);
+        if (!resolved) {
+          throw new Error(moduleName + " is not found");
+        }
+        const omitted = this.moduleDeadCode.get(moduleName)?.symbols;
+        const renamed = this.getRenameResult(moduleName);
+        return {
+          fileName: this.moduleFileName(moduleName),
+          resolved,
+          nameOf: (identifier: Parser.Identifier) => {
+            const symbol = resolved.symbolOf(identifier);
+            if (!symbol || omitted?.has(symbol)) {
+              return undefined;
+            }
+            return renamed.nameOf(identifier) ?? identifier.name;
+          },
+        };
+      }),
+    );
+  }
+
   /**
    * 指定モジュールのRenameパス結果を返す。`renameAll`で事前に計算済みの
    * ものをそのまま返すだけの参照用アクセサ。
@@ -144,35 +478,135 @@ export class Minifier {
    * dofileやSLモードのrequireその場展開は、呼び出し元と同じLuaスコープに
    * 関数で包まずに直接展開されるため、モジュールをまたいで同じ短縮名を
    * 再利用すると本来無関係な変数同士が衝突しうる（#12）。これを安全に防ぐため、
-   * あるモジュールが実際に使った短縮名は、後続モジュールを処理する前に
-   * `identifiersInUse`（予約名の集合）へ積み増す。これにより短縮名は
-   * プログラム全体で重複しなくなる（モジュール間での再利用による圧縮は
-   * 犠牲になるが、モジュール内でのスコープに基づく再利用は維持される）。
+   * そのように展開されるモジュール（とエントリ）が実際に使った短縮名は、
+   * 後続モジュールを処理する前に`identifiersInUse`（予約名の集合）へ積み増す。
+   *
+   * 一方、どこからも関数（IIFE・-mモードのrequire関数）に包まれてしか展開されない
+   * モジュールのローカルは、その関数の外からは見えず、モジュールの中からも自身の
+   * ローカルとグローバル・予約名しか参照しない。そのため予約名さえ避ければ、
+   * 他のモジュールと同じ短縮名を再利用できる。依存されている側が先に名前を
+   * 割り当てられるため、中に直接展開されるモジュールの名前は予約済みになっている。
    */
   private renameAll() {
     if (this.mode.rename === false) {
       return;
     }
+    this.mode.reserve?.forEach((name) => this.identifiersInUse.add(name));
+    // 文字列プールのローカルは複数のモジュールから参照されうるため、どのモジュールの
+    // シンボルとも衝突しないよう先に名前を割り当てて予約する
+    this.declaredStringPool.forEach((pool, moduleName) => {
+      const result = this.assignNames(
+        this.moduleFileName(moduleName) + " (strings)",
+        pool.resolved,
+      );
+      this.stringPoolRenames.set(pool, result);
+    });
+    const spliced = this.findSplicedModules();
     this.linkOrder.forEach((moduleName) => {
+      const keepName = this.keepNameMatcher(moduleName);
       const resolved = this.moduleResolve.get(moduleName);
       if (!resolved) {
         throw new Error(moduleName + " is not found");
       }
-      const result = assignRenames(resolved, this.identifiersInUse);
+      const result = this.assignNames(
+        this.moduleFileName(moduleName),
+        resolved,
+        this.moduleDeadCode.get(moduleName)?.symbols,
+        moduleName === this.entryModule || spliced.has(moduleName),
+        keepName && ((symbol) => keepName.test(symbol.name)),
+      );
       this.renameCache.set(moduleName, result);
-      result.usedNames.forEach((name) => this.identifiersInUse.add(name));
     });
   }
 
-  private printModule(moduleName: string): SourceNode {
+  /**
+   * 呼び出し元のスコープに関数で包まずに展開されるモジュールを求める。
+   */
+  private findSplicedModules(): Set<string> {
+    // Printパスのその場展開（splitModuleForStatementSplice）と同じ条件
+    const canSplice = (moduleName: string) => {
+      const body = this.moduleAST.get(moduleName)?.body ?? [];
+      const last = body[body.length - 1];
+      return (
+        body.length > 0 &&
+        last.type === "ReturnStatement" &&
+        last.arguments.length === 1
+      );
+    };
+    const spliced = new Set<string>();
+    this.linkOrder.forEach((moduleName) => {
+      const ast = this.moduleAST.get(moduleName);
+      if (ast) {
+        findSplicedModules(
+          ast,
+          this.mode.moduleLikeLua,
+          canSplice,
+          this.luaVersion,
+        ).forEach((name) => spliced.add(name));
+      }
+    });
+    return spliced;
+  }
+
+  /**
+   * モジュールで元の名前のままにするローカル変数の名前の正規表現を返す
+   * （`MinifierMode.keepNames`）。
+   */
+  private keepNameMatcher(moduleName: string): RegExp | undefined {
+    const { keepNames } = this.mode;
+    const pattern =
+      typeof keepNames === "string"
+        ? keepNames
+        : keepNames?.[this.moduleFileName(moduleName)];
+    return pattern === undefined ? undefined : new RegExp(pattern);
+  }
+
+  /**
+   * シンボルに短縮名を割り当て、`reserve`であれば使った名前を後続の予約名に
+   * 積み増す。短縮名のキャッシュがあれば前回の名前を優先し、割り当てた名前で
+   * キャッシュを更新する。`isKept`は元の名前のままにするシンボルを判定する。
+   */
+  private assignNames(
+    cacheKey: string,
+    resolved: ResolveResult,
+    omitted?: ReadonlySet<Symbol>,
+    reserve = true,
+    isKept?: (symbol: Symbol) => boolean,
+  ): RenameResult {
+    const result = assignRenames(
+      resolved,
+      this.identifiersInUse,
+      omitted,
+      this.nameCache?.preferredNames(cacheKey, resolved),
+      isKept,
+    );
+    this.nameCache?.record(cacheKey, resolved, (symbol) =>
+      result.nameOf(symbol.declaration),
+    );
+    if (reserve) {
+      result.usedNames.forEach((name) => this.identifiersInUse.add(name));
+    }
+    return result;
+  }
+
+  private moduleFileName(moduleName: string): string {
+    return this.moduleNameAndFileName.get(moduleName) ?? moduleName;
+  }
+
+  private printModule(moduleName: string, depth = 0): SourceNode {
     const ast = this.moduleAST.get(moduleName);
     const fileName = this.moduleNameAndFileName.get(moduleName);
     if (!ast || !fileName) {
       throw new Error(moduleName + " is not found");
     }
-    return new MinifyFile(fileName, moduleName, ast, this, this.mode).parse(
-      moduleName === this.entryModule,
-    );
+    return new MinifyFile(
+      fileName,
+      moduleName,
+      ast,
+      this,
+      this.mode,
+      depth,
+    ).parse(moduleName === this.entryModule);
   }
 
   /**
@@ -184,6 +618,7 @@ export class Minifier {
   private link() {
     const visiting = new Set<string>();
     const stack: string[] = [];
+    const dropCalls = expandDropCalls(this.mode.dropCalls ?? []);
 
     const visit = (moduleName: string) => {
       if (visiting.has(moduleName)) {
@@ -201,33 +636,70 @@ export class Minifier {
       visiting.add(moduleName);
       stack.push(moduleName);
 
-      const fullResolvePath =
-        path.join(this.dir, ...moduleName.split(".")) + ".lua";
-      if (!fs.existsSync(fullResolvePath)) {
-        throw new Error(moduleName + " is not found");
+      const { filePath: fullResolvePath, code } =
+        this.resolveModuleFile(moduleName);
+      const inputMap = this.loadInputSourceMap(fullResolvePath, code);
+      if (inputMap) {
+        this.moduleInputMaps.set(moduleName, inputMap);
       }
-      const code = fs.readFileSync(fullResolvePath).toString();
-      const ast = Parser.parse(code, this.luaParseSettings) as Chunk;
+      const defines = this.mode.defines ?? {};
+      // 条件コンパイルの指示コメント（--#if）は、パースの前にテキストに適用する
+      // （行番号は変わらないため、Source Mapには元のソースをそのまま載せる）
+      const ast = this.parseCache.parse(
+        applyDirectives(code, defines, fullResolvePath),
+        this.luaParseSettings,
+        fullResolvePath,
+      );
 
       // Resolveパス（#19）: このモジュールのスコープ/シンボルを解析し、Renameパスの
       // 入力として使い回せるようキャッシュする。グローバル参照はプログラム全体で
       // 予約すべき名前（identifiersInUse）としてここで集計する。
       const resolved = resolveScopes(ast);
       this.moduleResolve.set(moduleName, resolved);
-      resolved.globals.forEach((binding) =>
-        this.identifiersInUse.add(binding.name),
+      // コンパイル時定数はすべての参照がリテラルに置き換わり出力から消えるため、
+      // 予約しない（代入している場合はcollectConstantReferencesがエラーにする）。
+      const constants = collectConstantReferences(
+        ast,
+        resolved,
+        defines,
+        fullResolvePath,
       );
+      this.moduleConstants.set(moduleName, constants);
+      const constantOf = (identifier: Parser.Identifier) =>
+        constants.get(identifier);
+      this.moduleFoldings.set(
+        moduleName,
+        collectFoldedExpressions(ast, constantOf, this.luaVersion),
+      );
+      const deadCode = findDeadCode(
+        ast,
+        resolved,
+        constantOf,
+        this.luaVersion,
+        dropCalls,
+      );
+      this.moduleDeadCode.set(moduleName, deadCode);
+      this.moduleLocalMerges.set(
+        moduleName,
+        planLocalMerges(ast, resolved, deadCode.nodes),
+      );
+      resolved.globals.forEach((binding) => {
+        if (!Object.hasOwn(defines, binding.name)) {
+          this.identifiersInUse.add(binding.name);
+        }
+      });
 
       this.moduleSourceText.set(moduleName, code);
       this.moduleAST.set(moduleName, ast);
       // Source Mapの`sources`はURLとして解釈されるため、OS依存のpath.sepではなく
       // 常に"/"区切りで保持する（Windows上でのビルドでも壊れないように）。
+      // 探索パスによってはエントリのディレクトリの外（"../shared/x.lua"）になる。
       this.moduleNameAndFileName.set(
         moduleName,
-        moduleName.replaceAll(".", "/") + ".lua",
+        path.relative(this.dir, fullResolvePath).split(path.sep).join("/"),
       );
 
-      findModuleReferences(ast).forEach((ref) => {
+      findModuleReferences(ast, this.luaVersion).forEach((ref) => {
         visit(ref.moduleName);
       });
 
@@ -237,6 +709,257 @@ export class Minifier {
     };
 
     visit(this.entryModule);
+
+    if (this.mode.mangleFields !== undefined) {
+      this.planFieldNames(this.mode.mangleFields);
+    }
+    if (this.mode.aliasGlobals && this.mode.rename !== false) {
+      this.planAliases();
+    }
+    if (this.mode.rename !== false) {
+      this.planStringPools();
+    }
+  }
+
+  /**
+   * 文字列プールを決める。SLモードではすべてのモジュールがエントリのチャンクの
+   * 中に展開されるため、プログラム全体で1つのプールをエントリの先頭で宣言する。
+   * -mモードではモジュールごとに関数で包まれるため、モジュールごとに宣言する。
+   * 宣言するローカルは、チャンクで同時に有効なローカルと合わせて上限を超えない
+   * ようにする（SLモードでは展開される全モジュールのローカルを足し合わせて見積もる）。
+   * エイリアスのローカルはplanAliasesでチャンクのスコープに加えてあるため、
+   * ここで数えるローカルに含まれる。
+   */
+  private planStringPools() {
+    const chunkOf = (moduleName: string) => {
+      const ast = this.moduleAST.get(moduleName);
+      if (!ast) {
+        throw new Error(moduleName + " is not found");
+      }
+      // フィールド名として短縮するキーは、値が変わるためプールに入れない。
+      // 畳み込んだ式の中のリテラルは出力されないため、置き換え先のリテラルを数える
+      const folded = this.moduleFoldings.get(moduleName) ?? new Map();
+      return {
+        ast,
+        skipped: new Set<Parser.Node>([
+          ...(this.moduleDeadCode.get(moduleName)?.nodes ?? []),
+          ...(this.fieldMangling?.literals ?? []),
+          ...folded.keys(),
+        ]),
+        folded,
+      };
+    };
+    const activeLocalsOf = (moduleName: string) => {
+      const resolved = this.moduleResolve.get(moduleName);
+      return resolved ? maxActiveLocals(resolved.chunkScope) : 0;
+    };
+    if (!this.mode.moduleLikeLua) {
+      const activeLocals = this.linkOrder.reduce(
+        (sum, moduleName) => sum + activeLocalsOf(moduleName),
+        0,
+      );
+      const pool = planStringPool(
+        this.linkOrder.map(chunkOf),
+        MAX_LOCAL_VARIABLES - activeLocals,
+        this.luaVersion,
+      );
+      if (pool) {
+        this.declaredStringPool.set(this.entryModule, pool);
+        this.linkOrder.forEach((moduleName) => {
+          this.moduleStringPool.set(moduleName, pool);
+        });
+      }
+      return;
+    }
+    this.linkOrder.forEach((moduleName) => {
+      const pool = planStringPool(
+        [chunkOf(moduleName)],
+        MAX_LOCAL_VARIABLES - activeLocalsOf(moduleName),
+        this.luaVersion,
+      );
+      if (pool) {
+        this.declaredStringPool.set(moduleName, pool);
+        this.moduleStringPool.set(moduleName, pool);
+      }
+    });
+  }
+
+  /**
+   * リンクした全モジュールで一貫したフィールド名の短縮名を決める。
+   */
+  private planFieldNames(pattern: string | readonly string[]) {
+    const modules = this.linkOrder.map((moduleName) => {
+      const ast = this.moduleAST.get(moduleName);
+      const resolved = this.moduleResolve.get(moduleName);
+      if (!ast || !resolved) {
+        throw new Error(moduleName + " is not found");
+      }
+      return { ast, resolved };
+    });
+    this.fieldMangling = planFieldMangling(
+      modules,
+      fieldNameMatcher(pattern),
+      this.findWrittenGlobals(),
+      this.luaVersion,
+    );
+  }
+
+  // プログラム全体で代入されるグローバル変数
+  private findWrittenGlobals(): Set<string> {
+    const writtenGlobals = new Set<string>();
+    this.linkOrder.forEach((moduleName) => {
+      const ast = this.moduleAST.get(moduleName);
+      const resolved = this.moduleResolve.get(moduleName);
+      if (ast && resolved) {
+        collectWrittenGlobals(ast, resolved).forEach((name) =>
+          writtenGlobals.add(name),
+        );
+      }
+    });
+    return writtenGlobals;
+  }
+
+  /**
+   * グローバルのフィールド参照のエイリアスをモジュールごとに決める。エイリアスは
+   * チャンクの先頭で評価されるため、どのモジュールからも代入されないグローバルに
+   * 限る（他のモジュールでの代入も見る必要があるため、全モジュールのLink後に行う）。
+   * SLモードでは全モジュールのエイリアスがエントリのチャンクで宣言されるため、
+   * 展開される全モジュールのローカルと合わせて上限を超えないように、残りの数を
+   * linkOrderの順に割り当てる。
+   */
+  private planAliases() {
+    const writtenGlobals = this.findWrittenGlobals();
+    const activeLocalsOf = (moduleName: string) => {
+      const resolved = this.moduleResolve.get(moduleName);
+      return resolved ? maxActiveLocals(resolved.chunkScope) : 0;
+    };
+    let remaining =
+      MAX_LOCAL_VARIABLES -
+      this.linkOrder.reduce(
+        (sum, moduleName) => sum + activeLocalsOf(moduleName),
+        0,
+      );
+    this.linkOrder.forEach((moduleName) => {
+      const ast = this.moduleAST.get(moduleName);
+      const resolved = this.moduleResolve.get(moduleName);
+      if (!ast || !resolved) {
+        return;
+      }
+      const constants = this.moduleConstants.get(moduleName);
+      const plan = planGlobalAliases(
+        ast,
+        resolved,
+        writtenGlobals,
+        (identifier) => constants?.get(identifier),
+        this.moduleDeadCode.get(moduleName)?.nodes ?? new Set(),
+        this.mode.moduleLikeLua
+          ? MAX_LOCAL_VARIABLES - activeLocalsOf(moduleName)
+          : remaining,
+      );
+      if (plan) {
+        remaining -= plan.aliases.length;
+        this.moduleAliases.set(moduleName, plan);
+        // エイリアスのシンボルもRenameパスで名前を割り当てる
+        this.moduleResolve.set(moduleName, plan.resolved);
+      }
+    });
+  }
+
+  /**
+   * モジュール名に対応するファイルを探索パスの先頭から順に探し、最初に見つかった
+   * ファイルのパスと内容を返す。エントリファイルは探索パスによらず、指定された
+   * パスそのものを使う。見つからない場合は探索したすべてのパスを挙げたエラーを投げる。
+   */
+  private resolveModuleFile(moduleName: string): {
+    filePath: string;
+    code: string;
+  } {
+    const candidates =
+      moduleName === this.entryModule
+        ? [path.join(this.dir, moduleName + ".lua")]
+        : (this.mode.searchPath ?? DEFAULT_SEARCH_PATH).map((template) => {
+            const filePath = template.replaceAll(
+              "?",
+              moduleName.split(".").join("/"),
+            );
+            // 絶対パスのテンプレート（"/usr/share/lua/?.lua"）はそのまま使う。
+            // 相対パスはpath.resolveにするとカレントディレクトリが付くため、
+            // エントリのディレクトリと連結する
+            return path.isAbsolute(filePath)
+              ? path.resolve(this.dir, filePath)
+              : path.join(this.dir, filePath);
+          });
+    for (const filePath of candidates) {
+      this.probedFilePaths.add(filePath);
+      const code = this.loader(filePath);
+      if (code !== undefined) {
+        return { filePath, code };
+      }
+    }
+    throw new Error(
+      moduleName +
+        " is not found\n" +
+        candidates.map((filePath) => "\tno file '" + filePath + "'").join("\n"),
+    );
+  }
+
+  /**
+   * モジュールに付いている入力のSource Mapを探す。`sourceMappingURL`のコメントが
+   * 指すファイル（data URLも可）、無ければ同じ場所の".map"ファイルを使う。
+   */
+  private loadInputSourceMap(
+    filePath: string,
+    code: string,
+  ): InputSourceMap | undefined {
+    // 出力の.mapの`sources`は、モジュールのファイル名と同じくエントリの
+    // ディレクトリからの"/"区切りの相対パスにする
+    const sourceName = (source: string) =>
+      path.relative(this.dir, source).split(path.sep).join("/");
+    const url = [...code.matchAll(SOURCE_MAPPING_URL)].pop()?.[1];
+    if (url?.startsWith("data:")) {
+      const comma = url.indexOf(",");
+      const data = url.slice(comma + 1);
+      const text = url.slice(0, comma).endsWith(";base64")
+        ? Buffer.from(data, "base64").toString()
+        : decodeURIComponent(data);
+      return InputSourceMap.parse(text, filePath, sourceName);
+    }
+    const mapPath =
+      url === undefined
+        ? filePath + ".map"
+        : path.join(path.dirname(filePath), decodeURIComponent(url));
+    const text = this.loader(mapPath);
+    if (text === undefined) {
+      return undefined;
+    }
+    const map = InputSourceMap.parse(text, mapPath, sourceName);
+    // 同じ場所の.mapは`file`がこのモジュールを指すものに限る（minify自身が
+    // 出力した"main.lua.map"は"main.min.lua"のものなので読まない）
+    if (
+      url === undefined &&
+      map.file !== undefined &&
+      path.basename(map.file) !== path.basename(filePath)
+    ) {
+      return undefined;
+    }
+    // watchモードでは入力のSource Mapの変更でも再ビルドする
+    this.probedFilePaths.add(mapPath);
+    return map;
+  }
+
+  /**
+   * `moduleName`の位置（行は1始まり、列は0始まり）を、入力のSource Mapが
+   * あればそれで元のソースの位置に戻す。無ければundefinedを返す
+   * （呼び出し側はモジュール自身の位置を使う）。
+   */
+  originalPositionOf(
+    moduleName: string,
+    line: number,
+    column: number,
+  ): OriginalPosition | undefined {
+    return this.moduleInputMaps
+      .get(moduleName)
+      ?.originalPositionFor(line, column);
   }
 
   /**
@@ -250,7 +973,7 @@ export class Minifier {
       if (!ast) {
         return;
       }
-      findModuleReferences(ast).forEach((ref) => {
+      findModuleReferences(ast, this.luaVersion).forEach((ref) => {
         if (ref.kind === "require") {
           targets.add(ref.moduleName);
         }
@@ -268,6 +991,16 @@ export class Minifier {
       if (moduleName === this.entryModule || !targets.has(moduleName)) {
         return;
       }
+      if (this.mode.pretty) {
+        parts.push(
+          'if m=="',
+          moduleName,
+          '"then r=(function()\n' + INDENT,
+          this.printModule(moduleName, 1),
+          "\nend)()end\n",
+        );
+        return;
+      }
       parts.push(
         'if m=="',
         moduleName,
@@ -0,0 +1,155 @@
+// 短縮名のキャッシュ（--name-cache）。Renameパスはシンボルの参照回数の順に短い
+// 名前を割り当てるため、参照が1つ増えただけで出力全体の名前が入れ替わりうる。
+// 前回のビルドで割り当てた名前をJSONに保存しておき、次のビルドで同じシンボルに
+// 優先して割り当てることで、コミットした.min.luaの差分を読めるものにする。
+//
+// シンボルはモジュール（ファイル名）・スコープの位置（チャンクからの子スコープの
+// 番号の並び）・元の名前で識別する。
+//
+// {
+//   "version": 1,
+//   "modules": {
+//     "main.lua": { ":count": "a", "0/1:speed": "b" }
+//   }
+// }
+import fs from "fs";
+import { ResolveResult, Scope, Symbol } from "./resolver";
+
+export const NAME_CACHE_VERSION = 1;
+
+const IDENTIFIER = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * シンボルごとのキャッシュのキー（"スコープの位置:元の名前"）を求める。
+ * 同じスコープで同じ名前を再宣言したシンボルには"#2"・"#3"…を付けて区別する。
+ */
+export function symbolKeys(resolved: ResolveResult): Map<Symbol, string> {
+  const keys = new Map<Symbol, string>();
+  const visit = (scope: Scope, scopePath: string) => {
+    const seen = new Map<string, number>();
+    scope.symbols.forEach((symbol) => {
+      const key = scopePath + ":" + symbol.name;
+      const count = (seen.get(key) ?? 0) + 1;
+      seen.set(key, count);
+      keys.set(symbol, count === 1 ? key : key + "#" + String(count));
+    });
+    scope.children.forEach((child, ix) => {
+      visit(
+        child,
+        scopePath === "" ? String(ix) : scopePath + "/" + String(ix),
+      );
+    });
+  };
+  visit(resolved.chunkScope, "");
+  return keys;
+}
+
+export class NameCache {
+  // モジュールのキー → シンボルのキー → 短縮名
+  private readonly modules = new Map<string, Map<string, string>>();
+
+  /**
+   * キャッシュファイルの内容を読み込む。形式が正しくない場合は例外を投げる。
+   */
+  static parse(text: string): NameCache {
+    const json: unknown = JSON.parse(text);
+    if (
+      !isObject(json) ||
+      json.version !== NAME_CACHE_VERSION ||
+      !isObject(json.modules)
+    ) {
+      throw new Error(
+        'the name cache must be {"version": ' +
+          String(NAME_CACHE_VERSION) +
+          ', "modules": {...}}',
+      );
+    }
+    const cache = new NameCache();
+    Object.entries(json.modules).forEach(([moduleKey, names]) => {
+      if (
+        !isObject(names) ||
+        !Object.values(names).every(
+          (name) => typeof name === "string" && IDENTIFIER.test(name),
+        )
+      ) {
+        throw new Error('invalid names for module "' + moduleKey + '"');
+      }
+      cache.modules.set(
+        moduleKey,
+        new Map(Object.entries(names as Record<string, string>)),
+      );
+    });
+    return cache;
+  }
+
+  /**
+   * キャッシュファイルに書き出す内容。差分が安定するようキーの順に並べる。
+   */
+  stringify(): string {
+    const modules: Record<string, Record<string, string>> = {};
+    [...this.modules.keys()].sort().forEach((moduleKey) => {
+      const names = this.modules.get(moduleKey) ?? new Map<string, string>();
+      modules[moduleKey] = Object.fromEntries(
+        [...names].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+      );
+    });
+    return (
+      JSON.stringify({ version: NAME_CACHE_VERSION, modules }, null, 2) + "\n"
+    );
+  }
+
+  /**
+   * 前回のビルドでシンボルに割り当てた名前を引く関数を返す。
+   */
+  preferredNames(
+    moduleKey: string,
+    resolved: ResolveResult,
+  ): (symbol: Symbol) => string | undefined {
+    const names = this.modules.get(moduleKey);
+    const keys = symbolKeys(resolved);
+    return (symbol) => {
+      const key = keys.get(symbol);
+      return key === undefined ? undefined : names?.get(key);
+    };
+  }
+
+  /**
+   * モジュールのシンボルに割り当てた名前で、そのモジュールのキャッシュを置き換える。
+   * 名前を割り当てなかったシンボル（DCEで取り除いたものなど）は記録しない。
+   */
+  record(
+    moduleKey: string,
+    resolved: ResolveResult,
+    nameOf: (symbol: Symbol) => string | undefined,
+  ) {
+    const names = new Map<string, string>();
+    symbolKeys(resolved).forEach((key, symbol) => {
+      const name = nameOf(symbol);
+      if (name !== undefined) {
+        names.set(key, name);
+      }
+    });
+    this.modules.set(moduleKey, names);
+  }
+}
+
+/**
+ * キャッシュファイルを読み込む。ファイルが無ければ空のキャッシュを返す
+ * （初回のビルドで作られる）。
+ */
+export function loadNameCache(filePath: string): NameCache {
+  if (!fs.existsSync(filePath)) {
+    return new NameCache();
+  }
+  try {
+    return NameCache.parse(fs.readFileSync(filePath).toString());
+  } catch (e) {
+    throw new Error(
+      filePath + ": " + (e instanceof Error ? e.message : String(e)),
+    );
+  }
+}
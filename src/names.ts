@@ -0,0 +1,174 @@
+// 短縮名の対応表（.names.json）。ゲーム内のエラー（`attempt to index a nil value
+// (local 'b')`）に現れる短縮名が、どのモジュールのどのローカル変数かを調べるために、
+// モジュール・スコープごとにシンボルの元の名前・種類・宣言位置・短縮名を書き出す。
+//
+// 位置はソースの行（1始まり）・列（0始まり）で、Source Mapと同じ基準。
+// スコープの範囲は、スコープを作る構文（関数・ブロックを持つ文・if文の節）の範囲。
+import { RawSourceMap, SourceMapConsumer } from "source-map";
+import Parser from "luaparse";
+import { ResolveResult, Scope, SymbolKind } from "./resolver";
+
+export const NAME_MAP_VERSION = 1;
+
+export interface NameMapPosition {
+  readonly line: number;
+  readonly column: number;
+}
+
+export interface NameMapSymbol {
+  readonly name: string;
+  readonly kind: SymbolKind;
+  // 宣言箇所の位置
+  readonly line: number;
+  readonly column: number;
+  // 出力での名前（短縮しない場合は元の名前）
+  readonly shortName: string;
+}
+
+export interface NameMapScope {
+  readonly kind: Scope["kind"];
+  readonly start: NameMapPosition | null;
+  readonly end: NameMapPosition | null;
+  readonly symbols: NameMapSymbol[];
+  readonly children: NameMapScope[];
+}
+
+export interface NameMap {
+  readonly version: number;
+  // 出力ファイル名
+  readonly file: string;
+  // モジュールのファイル名（Source Mapの`sources`と同じ） → チャンクのスコープ
+  readonly modules: Record<string, NameMapScope>;
+}
+
+export interface NameMapModule {
+  readonly fileName: string;
+  readonly resolved: ResolveResult;
+  // シンボルの出力での名前。出力しないシンボル（DCEで取り除いたもの）はundefined
+  readonly nameOf: (identifier: Parser.Identifier) => string | undefined;
+}
+
+/**
+ * .mapと同じ場所に置く対応表のパス（main.lua.map → main.lua.names.json）
+ */
+export function nameMapPath(mapFileName: string): string {
+  return mapFileName.replace(/\.map$/, "") + ".names.json";
+}
+
+function positionOf(
+  position: NameMapPosition | undefined,
+): NameMapPosition | null {
+  return position ? { line: position.line, column: position.column } : null;
+}
+
+/**
+ * リンクした全モジュールのシンボルと短縮名から対応表を作る。
+ */
+export function buildNameMap(
+  file: string,
+  modules: readonly NameMapModule[],
+): NameMap {
+  const result: Record<string, NameMapScope> = {};
+  modules.forEach(({ fileName, resolved, nameOf }) => {
+    const visit = (scope: Scope): NameMapScope => ({
+      kind: scope.kind,
+      start: positionOf(scope.loc?.start),
+      end: positionOf(scope.loc?.end),
+      symbols: scope.symbols.flatMap((symbol) => {
+        const shortName = nameOf(symbol.declaration);
+        const loc = symbol.declaration.loc;
+        return shortName === undefined || !loc
+          ? []
+          : [
+              {
+                name: symbol.name,
+                kind: symbol.kind,
+                line: loc.start.line,
+                column: loc.start.column,
+                shortName,
+              },
+            ];
+      }),
+      children: scope.children.map(visit),
+    });
+    result[fileName] = visit(resolved.chunkScope);
+  });
+  return { version: NAME_MAP_VERSION, file, modules: result };
+}
+
+function isBefore(a: NameMapPosition, b: NameMapPosition): boolean {
+  return a.line < b.line || (a.line === b.line && a.column <= b.column);
+}
+
+function contains(scope: NameMapScope, position: NameMapPosition): boolean {
+  return (
+    (!scope.start || isBefore(scope.start, position)) &&
+    (!scope.end || isBefore(position, scope.end))
+  );
+}
+
+/**
+ * ソース`source`の位置`position`で短縮名`shortName`が指すシンボルを返す。
+ * 位置を含む最も内側のスコープから順に、位置より前で宣言されたシンボル
+ * （引数・ループ変数・ラベルはスコープ全体）を探す。
+ */
+export function findSymbolAt(
+  nameMap: NameMap,
+  source: string,
+  position: NameMapPosition,
+  shortName: string,
+): NameMapSymbol | undefined {
+  const chunk = Object.hasOwn(nameMap.modules, source)
+    ? nameMap.modules[source]
+    : undefined;
+  const chain: NameMapScope[] = [];
+  for (
+    let scope = chunk;
+    scope;
+    scope = scope.children.find((child) => contains(child, position))
+  ) {
+    chain.unshift(scope);
+  }
+  for (const scope of chain) {
+    const found = scope.symbols
+      .filter(
+        (symbol) =>
+          symbol.shortName === shortName &&
+          (symbol.kind !== "local" || isBefore(symbol, position)),
+      )
+      .pop();
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 出力の位置`position`（行は1始まり、列は0始まり）で短縮名`shortName`が指す
+ * シンボルを、Source Mapで元のソースの位置に戻して探す。
+ */
+export async function lookupOutputName(
+  nameMap: NameMap,
+  map: RawSourceMap,
+  position: NameMapPosition,
+  shortName: string,
+): Promise<{ source: string; symbol: NameMapSymbol } | undefined> {
+  const original = await SourceMapConsumer.with(map, null, (consumer) =>
+    consumer.originalPositionFor(position),
+  );
+  if (
+    original.source === null ||
+    original.line === null ||
+    original.column === null
+  ) {
+    return undefined;
+  }
+  const symbol = findSymbolAt(
+    nameMap,
+    original.source,
+    { line: original.line, column: original.column },
+    shortName,
+  );
+  return symbol && { source: original.source, symbol };
+}
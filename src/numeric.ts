@@ -0,0 +1,94 @@
+// 数値リテラルの最短表記。ソースの表記（`0.50`、`0x10`、`3.0`など）にかかわらず、
+// 同じ値で、Lua 5.3では整数・浮動小数点数の区別も同じになる最も短い表記を求める。
+import Parser from "luaparse";
+import { numericLiteralValue } from "./folding";
+import { LuaVersion } from "./luaversion";
+
+/**
+ * 有限の非負の数を10進で表記した候補を返す。`floatMark`がtrueの場合は、
+ * 整数として読まれないよう必ず"."か指数部を含む表記にする。
+ */
+function decimalSpellings(value: number, floatMark: boolean): string[] {
+  // toExponential()は値を正確に表せる最短の仮数部の桁を返す（"1.25e+2"など）
+  const [mantissa, exponentText] = value.toExponential().split("e");
+  const digits = mantissa.replace(".", "");
+  const exponent = Number(exponentText);
+  const pointAt = exponent + 1;
+
+  let positional: string;
+  if (pointAt >= digits.length) {
+    positional =
+      digits + "0".repeat(pointAt - digits.length) + (floatMark ? "." : "");
+  } else if (pointAt > 0) {
+    positional = digits.slice(0, pointAt) + "." + digits.slice(pointAt);
+  } else {
+    positional = "." + "0".repeat(-pointAt) + digits;
+  }
+  return [positional, digits + "e" + String(pointAt - digits.length)];
+}
+
+// 16進の浮動小数点数表記（0x1p-10など）。10進では桁の多い2の冪で短くなる。
+function hexFloatSpellings(value: number): string[] {
+  if (value === 0) {
+    return [];
+  }
+  // value = mantissa * 2^exponent（mantissaは奇数の整数）に分解する
+  let mantissa = value;
+  let exponent = 0;
+  while (!Number.isInteger(mantissa)) {
+    mantissa *= 2;
+    exponent--;
+  }
+  while (mantissa % 2 === 0) {
+    mantissa /= 2;
+    exponent++;
+  }
+  // 仮数部を数ビットずらすと指数部の桁が減って短くなる場合がある
+  return [0, 1, 2, 3].map(
+    (shift) =>
+      "0x" +
+      (mantissa * 2 ** shift).toString(16) +
+      "p" +
+      String(exponent - shift),
+  );
+}
+
+function shortest(spellings: string[]): string {
+  return spellings.reduce((a, b) => (b.length < a.length ? b : a));
+}
+
+/**
+ * 数値リテラルを、値（と5.3では整数・浮動小数点数の区別）を変えない最短の表記にする。
+ * どの候補もソースの表記より短くならない場合はソースの表記のまま出力する。
+ */
+export function formatNumericLiteral(
+  literal: Parser.NumericLiteral,
+  luaVersion: LuaVersion,
+): string {
+  const raw = literal.raw;
+  if (luaVersion !== "5.3") {
+    // 5.3以外は数値がすべて浮動小数点数のため、整数の表記にも指数表記を使える。
+    // 16進は53bitを超える値の扱いが処理系依存のため書き換えない。
+    return /^0[xX]/.test(raw) || !isFinite(literal.value)
+      ? raw
+      : shortest([...decimalSpellings(literal.value, false), raw]);
+  }
+
+  const value = numericLiteralValue(literal);
+  if (value.type === "integer") {
+    // 64bitで折り返した16進の整数リテラル（0xffffffffffffffffなど）は負の値になり、
+    // 10進では単項マイナス無しに書けない
+    const hex = "0x" + BigInt.asUintN(64, value.value).toString(16);
+    return shortest(
+      value.value < 0n ? [hex, raw] : [String(value.value), hex, raw],
+    );
+  }
+  if (value.type !== "float" || !isFinite(value.value)) {
+    return raw;
+  }
+  return shortest([
+    ...decimalSpellings(value.value, true),
+    ...hexFloatSpellings(value.value),
+    raw,
+  ]);
+}
@@ -13,15 +13,17 @@
 //      同じスロット数でも出力サイズが最小化される。
 //
 // 予約語・"self"・呼び出し側が指定する予約名（グローバル参照やStormworks APIなど）
-// は、どのシンボルにも割り当てられない。
+// は、どのシンボルにも割り当てられない。呼び出し側が指定したシンボル（--keep-names）
+// は短縮せず元の名前のままにし、その名前も他のシンボルには割り当てない。
 import Parser from "luaparse";
 import { Scope, Symbol, ResolveResult } from "./resolver";
 import { IDENTIFIER_PARTS, isKeyword } from "./ast2lua";
 
 export interface RenameResult {
   // identifierがResolveパスで解決済みのローカルシンボルに対応する場合、
-  // 割り当てられた短縮名を返す。グローバル参照やフィールド名など対応する
-  // シンボルが無い場合はundefinedを返す（呼び出し側は元の名前を使う）。
+  // 割り当てられた短縮名（元の名前のままにするシンボルは元の名前）を返す。
+  // グローバル参照やフィールド名など対応するシンボルが無い場合は
+  // undefinedを返す（呼び出し側は元の名前を使う）。
   nameOf(identifier: Parser.Identifier): string | undefined;
   // このモジュールが実際に割り当てた短縮名の集合。requireの展開先が
   // 呼び出し元と同じLuaスコープに直接展開される場合（dofile等、関数で
@@ -30,14 +32,17 @@ export interface RenameResult {
   readonly usedNames: ReadonlySet<string>;
 }
 
-function isAvailable(id: string, reserved: ReadonlySet<string>): boolean {
+export function isAvailable(
+  id: string,
+  reserved: ReadonlySet<string>,
+): boolean {
   return id !== "self" && !isKeyword(id) && !reserved.has(id);
 }
 
 // 0始まりのカウンタから短縮名候補を生成する（バイジェクティブ基数記数法）。
 // 通常の位取り記数法と違い同じ文字列を2つのカウンタ値が指すことがないため、
 // カウンタを増やし続けるだけで重複なく識別子候補を列挙できる。
-function generateCandidate(counter: number): string {
+export function generateCandidate(counter: number): string {
   const l = IDENTIFIER_PARTS.length;
   let num = counter + 1;
   let id = "";
@@ -57,11 +62,15 @@ function generateCandidate(counter: number): string {
 function assignSlots(
   scope: Scope,
   active: ReadonlySet<number>,
+  skipped: (symbol: Symbol) => boolean,
 ): Map<Symbol, number> {
   const slotOf = new Map<Symbol, number>();
   const used = new Set(active);
 
   scope.symbols.forEach((symbol) => {
+    if (skipped(symbol)) {
+      return;
+    }
     let slot = 0;
     while (used.has(slot)) {
       slot++;
@@ -71,7 +80,7 @@ function assignSlots(
   });
 
   scope.children.forEach((child) => {
-    assignSlots(child, used).forEach((slot, symbol) => {
+    assignSlots(child, used, skipped).forEach((slot, symbol) => {
       slotOf.set(symbol, slot);
     });
   });
@@ -79,11 +88,35 @@ function assignSlots(
   return slotOf;
 }
 
+/**
+ * `omitted`は出力されないシンボル（DCEで宣言ごと取り除かれたもの）で、
+ * 名前を割り当てない（スロットも消費しない）。
+ * `preferredName`はシンボルに優先して割り当てたい名前（前回のビルドの名前。
+ * --name-cache）を返す。予約名や他のスロットと衝突する場合は使わない。
+ * `isKept`がtrueを返すシンボルは元の名前のままにする。ただし元の名前が予約名
+ * （グローバル参照・他のモジュールが使った名前など）の場合は、意味が変わらない
+ * よう通常どおり短縮する。
+ */
 export function assignRenames(
   resolveResult: ResolveResult,
   reserved: ReadonlySet<string>,
+  omitted: ReadonlySet<Symbol> = new Set(),
+  preferredName?: (symbol: Symbol) => string | undefined,
+  isKept: (symbol: Symbol) => boolean = () => false,
 ): RenameResult {
-  const slotOf = assignSlots(resolveResult.chunkScope, new Set());
+  const kept = new Set(
+    resolveResult.symbols.filter(
+      (symbol) =>
+        !omitted.has(symbol) &&
+        isKept(symbol) &&
+        isAvailable(symbol.name, reserved),
+    ),
+  );
+  const slotOf = assignSlots(
+    resolveResult.chunkScope,
+    new Set(),
+    (symbol) => omitted.has(symbol) || kept.has(symbol),
+  );
 
   // スロットの通算参照回数（宣言自体も1回として数える）を集計する。
   const weightOfSlot = new Map<number, number>();
@@ -101,13 +134,40 @@ export function assignRenames(
   );
 
   const nameOfSlot = new Map<number, string>();
+  // 元の名前のままにするシンボルの名前は、他のスロットに割り当てない
+  const taken = new Set([...kept].map((symbol) => symbol.name));
+  if (preferredName) {
+    // 優先する名前が空いていれば、頻度の高いスロットから先に使う。同じスロットの
+    // シンボル同士で優先する名前が違う場合は、参照回数の多いシンボルの名前を使う。
+    const symbolsOfSlot = new Map<number, Symbol[]>();
+    slotOf.forEach((slot, symbol) => {
+      symbolsOfSlot.set(slot, [...(symbolsOfSlot.get(slot) ?? []), symbol]);
+    });
+    orderedSlots.forEach((slot) => {
+      const name = (symbolsOfSlot.get(slot) ?? [])
+        .slice()
+        .sort((a, b) => b.references.length - a.references.length)
+        .map((symbol) => preferredName(symbol))
+        .find(
+          (n) => n !== undefined && isAvailable(n, reserved) && !taken.has(n),
+        );
+      if (name !== undefined) {
+        nameOfSlot.set(slot, name);
+        taken.add(name);
+      }
+    });
+  }
   let counter = 0;
   orderedSlots.forEach((slot) => {
+    if (nameOfSlot.has(slot)) {
+      return;
+    }
     let candidate: string;
     do {
       candidate = generateCandidate(counter++);
-    } while (!isAvailable(candidate, reserved));
+    } while (!isAvailable(candidate, reserved) || taken.has(candidate));
     nameOfSlot.set(slot, candidate);
+    taken.add(candidate);
   });
 
   const nameOfSymbol = new Map<Symbol, string>();
@@ -117,6 +177,9 @@ export function assignRenames(
       nameOfSymbol.set(symbol, name);
     }
   });
+  kept.forEach((symbol) => {
+    nameOfSymbol.set(symbol, symbol.name);
+  });
 
   return {
     nameOf: (identifier) => {
@@ -129,6 +192,6 @@ export function assignRenames(
       const symbol = resolveResult.symbolOf(identifier);
       return symbol ? nameOfSymbol.get(symbol) : undefined;
     },
-    usedNames: new Set(nameOfSlot.values()),
+    usedNames: taken,
   };
 }
@@ -7,6 +7,8 @@ export type SymbolKind = "local" | "param" | "for" | "label";
 
 export interface Scope {
   readonly kind: "chunk" | "function" | "block";
+  // スコープを作る構文（関数・ブロックを持つ文・if文の節・チャンク）のソース上の範囲
+  readonly loc?: Parser.Node["loc"];
   readonly parent: Scope | null;
   readonly children: Scope[];
   // このスコープで直接宣言されたシンボル（宣言順。同名の再宣言もすべて含む）
@@ -54,9 +56,11 @@ export function resolveScopes(chunk: Parser.Chunk): ResolveResult {
   function createScope(
     kind: Scope["kind"],
     parent: MutableScope | null,
+    node: Parser.Node | Parser.Chunk,
   ): MutableScope {
     const scope: MutableScope = {
       kind,
+      loc: node.loc,
       parent,
       children: [],
       symbols: [],
@@ -188,19 +192,19 @@ export function resolveScopes(chunk: Parser.Chunk): ResolveResult {
         resolveExpression(statement.expression, scope);
         return;
       case "DoStatement": {
-        const inner = createScope("block", scope);
+        const inner = createScope("block", scope, statement);
         resolveBlock(statement.body, inner);
         return;
       }
       case "WhileStatement": {
         resolveExpression(statement.condition, scope);
-        const inner = createScope("block", scope);
+        const inner = createScope("block", scope, statement);
         resolveBlock(statement.body, inner);
         return;
       }
       case "RepeatStatement": {
         // `until`の条件式は本体で宣言されたローカルを参照できる
-        const inner = createScope("block", scope);
+        const inner = createScope("block", scope, statement);
         resolveBlock(statement.body, inner);
         resolveExpression(statement.condition, inner);
         return;
@@ -210,7 +214,7 @@ export function resolveScopes(chunk: Parser.Chunk): ResolveResult {
           if (clause.type !== "ElseClause") {
             resolveExpression(clause.condition, scope);
           }
-          const inner = createScope("block", scope);
+          const inner = createScope("block", scope, clause);
           resolveBlock(clause.body, inner);
         });
         return;
@@ -220,7 +224,7 @@ export function resolveScopes(chunk: Parser.Chunk): ResolveResult {
         if (statement.step) {
           resolveExpression(statement.step, scope);
         }
-        const inner = createScope("block", scope);
+        const inner = createScope("block", scope, statement);
         declare(inner, statement.variable, "for");
         resolveBlock(statement.body, inner);
         return;
@@ -229,7 +233,7 @@ export function resolveScopes(chunk: Parser.Chunk): ResolveResult {
         statement.iterators.forEach((iterator) => {
           resolveExpression(iterator, scope);
         });
-        const inner = createScope("block", scope);
+        const inner = createScope("block", scope, statement);
         statement.variables.forEach((v) => declare(inner, v, "for"));
         resolveBlock(statement.body, inner);
         return;
@@ -281,7 +285,7 @@ export function resolveScopes(chunk: Parser.Chunk): ResolveResult {
         resolveExpression(fn.identifier, scope);
       }
     }
-    const inner = createScope("function", scope);
+    const inner = createScope("function", scope, fn);
     fn.parameters.forEach((parameter) => {
       if (parameter.type === "Identifier") {
         declare(inner, parameter, "param");
@@ -335,7 +339,7 @@ export function resolveScopes(chunk: Parser.Chunk): ResolveResult {
         // フィールド名（`.identifier`）は変数参照ではないため解決しない
         return;
       case "FunctionDeclaration": {
-        const inner = createScope("function", scope);
+        const inner = createScope("function", scope, expr);
         expr.parameters.forEach((parameter) => {
           if (parameter.type === "Identifier") {
             declare(inner, parameter, "param");
@@ -366,7 +370,7 @@ export function resolveScopes(chunk: Parser.Chunk): ResolveResult {
     }
   }
 
-  const chunkScope = createScope("chunk", null);
+  const chunkScope = createScope("chunk", null, chunk);
   resolveBlock(chunk.body, chunkScope);
 
   return {
@@ -376,3 +380,24 @@ export function resolveScopes(chunk: Parser.Chunk): ResolveResult {
     symbolOf: (identifier) => identifierSymbols.get(identifier),
   };
 }
+
+// 1つの関数で同時に有効にできるローカル変数の上限（LuaのLUAI_MAXVARS）
+export const MAX_LOCAL_VARIABLES = 200;
+
+// forループが内部で使う隠れたローカル変数の数（ループ変数を除く）
+const FOR_LOOP_HIDDEN_LOCALS = 3;
+
+/**
+ * `scope`の関数（チャンク）内で同時に有効になるローカル変数の最大数を求める。
+ * 入れ子の関数のスコープは別の関数のため数えない。
+ */
+export function maxActiveLocals(scope: Scope): number {
+  const own = scope.symbols.filter((symbol) => symbol.kind !== "label");
+  const hidden = own.some((symbol) => symbol.kind === "for")
+    ? FOR_LOOP_HIDDEN_LOCALS
+    : 0;
+  const inner = scope.children
+    .filter((child) => child.kind !== "function")
+    .map(maxActiveLocals);
+  return own.length + hidden + Math.max(0, ...inner);
+}
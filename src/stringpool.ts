@@ -0,0 +1,170 @@
+// 繰り返し現れる文字列リテラルのプール化。同じ値の文字列リテラルを
+// チャンクの先頭でローカルに代入し（`local a="Max Speed"`）、各リテラルを
+// そのローカルへの参照に置き換える。
+//
+// プールのローカルは、参照するモジュールのシンボルと衝突しないよう、
+// モジュールより先にRenameパスで名前を割り当てる（名前はプログラム全体で予約される）。
+// require/dofileの引数はLinkパス・printerが静的な文字列として読むため置き換えない。
+// 識別子として書けるキー（`t["field"]`）はprinterが`t.field`にするため数えない。
+// ASTは複数のMinifier（ParseCache）で共有されるため変更せず、置き換えはprinter
+// （MinifyFile）が出力時に行う。
+import Parser from "luaparse";
+import { Chunk } from "./ast2lua";
+import { DECLARATION_OVERHEAD, ESTIMATED_NAME_LENGTH } from "./aliases";
+import { moduleCallArgument, walk } from "./linker";
+import {
+  decodeLuaString,
+  encodeLuaString,
+  formatStringLiteral,
+} from "./luastring";
+import { LuaVersion } from "./luaversion";
+import { ResolveResult, Scope, Symbol } from "./resolver";
+import { identifierKeyOf } from "./tables";
+
+export interface PooledString {
+  // 値のバイト文字列
+  readonly value: string;
+  readonly symbol: Symbol;
+}
+
+export interface StringPool {
+  // チャンクの先頭で宣言する順
+  readonly strings: readonly PooledString[];
+  // プールのローカルに置き換える文字列リテラルと、置き換え先の識別子
+  readonly references: ReadonlyMap<Parser.StringLiteral, Parser.Identifier>;
+  // プールのシンボルだけからなるResolveパスの結果（Renameパスに渡す）
+  readonly resolved: ResolveResult;
+}
+
+/**
+ * `chunks`（SLモードでは同じチャンクに展開される全モジュール）に繰り返し現れる
+ * 文字列リテラルのうち、ローカルに置き換えると出力が短くなるものを選ぶ。
+ * `skipped`は出力しないノード（この中のリテラルは数えない）、`folded`は定数畳み込みの
+ * 置き換え先（`skipped`に含まれる式は、代わりに置き換え先のリテラルを数える）、
+ * `maxLocals`は宣言できるローカルの数の上限、`luaVersion`はリテラルの値を解釈する
+ * バージョン。置き換えるものが無ければundefinedを返す。
+ */
+export function planStringPool(
+  chunks: readonly {
+    ast: Chunk;
+    skipped: ReadonlySet<Parser.Node>;
+    folded: ReadonlyMap<Parser.Node, Parser.Expression>;
+  }[],
+  maxLocals: number,
+  luaVersion: LuaVersion,
+): StringPool | undefined {
+  // 値ごとの出現箇所（表記が違っても値が同じものはまとめる）
+  const occurrences = new Map<string, Parser.StringLiteral[]>();
+  chunks.forEach(({ ast, skipped, folded }) => {
+    const moduleNames = new Set<unknown>();
+    const fieldKeys = new Set<unknown>();
+    const visit = (n: Record<string, unknown>): boolean => {
+      const node = n as unknown as Parser.Node;
+      if (skipped.has(node)) {
+        // 畳み込んだ式はprinterが置き換え先を出力する
+        const replacement = folded.get(node);
+        if (replacement) {
+          walk(replacement, visit);
+        }
+        return false;
+      }
+      const call = moduleCallArgument(n);
+      if (call) {
+        moduleNames.add(call.argument);
+      }
+      const key =
+        node.type === "IndexExpression"
+          ? node.index
+          : node.type === "TableKey"
+            ? node.key
+            : undefined;
+      if (key && identifierKeyOf(key) !== undefined) {
+        fieldKeys.add(key);
+      }
+      if (
+        node.type !== "StringLiteral" ||
+        moduleNames.has(node) ||
+        fieldKeys.has(node)
+      ) {
+        return true;
+      }
+      const value = decodeLuaString(node.raw, luaVersion);
+      const list = occurrences.get(value) ?? [];
+      list.push(node);
+      occurrences.set(value, list);
+      return true;
+    };
+    walk(ast, visit);
+  });
+
+  // 各リテラルで短くなる文字数から、宣言に加わる`名前,`と`値,`の分を引く
+  const savingOf = (value: string, list: Parser.StringLiteral[]) =>
+    list.reduce(
+      (sum, literal) =>
+        sum +
+        formatStringLiteral(literal.raw, luaVersion).length -
+        ESTIMATED_NAME_LENGTH,
+      0,
+    ) -
+    (ESTIMATED_NAME_LENGTH + encodeLuaString(value, luaVersion).length + 2);
+  const selected = [...occurrences]
+    .filter(([value, list]) => savingOf(value, list) > 0)
+    .sort(([a, aList], [b, bList]) => savingOf(b, bList) - savingOf(a, aList))
+    .slice(0, Math.max(0, maxLocals));
+  const total = selected.reduce(
+    (sum, [value, list]) => sum + savingOf(value, list),
+    0,
+  );
+  if (total <= DECLARATION_OVERHEAD) {
+    return undefined;
+  }
+
+  const chunkScope: Scope = {
+    kind: "chunk",
+    parent: null,
+    children: [],
+    symbols: [],
+  };
+  const symbolOfIdentifier = new Map<Parser.Identifier, Symbol>();
+  const references = new Map<Parser.StringLiteral, Parser.Identifier>();
+  const identifierAt = (
+    name: string,
+    node: Parser.Node,
+  ): Parser.Identifier => ({
+    type: "Identifier",
+    name,
+    loc: node.loc,
+  });
+  const strings = selected.map(([value, list], ix): PooledString => {
+    // 短縮名のキャッシュのキーになるため、値のリテラル表記を名前にする
+    const name = encodeLuaString(value, luaVersion);
+    const symbol: Symbol = {
+      id: ix,
+      name,
+      kind: "local",
+      scope: chunkScope,
+      declaration: identifierAt(name, list[0]),
+      references: list.map((literal) => {
+        const reference = identifierAt(name, literal);
+        references.set(literal, reference);
+        return reference;
+      }),
+    };
+    [symbol.declaration, ...symbol.references].forEach((identifier) => {
+      symbolOfIdentifier.set(identifier, symbol);
+    });
+    chunkScope.symbols.push(symbol);
+    return { value, symbol };
+  });
+
+  return {
+    strings,
+    references,
+    resolved: {
+      chunkScope,
+      symbols: chunkScope.symbols,
+      globals: new Map(),
+      symbolOf: (identifier) => symbolOfIdentifier.get(identifier),
+    },
+  };
+}
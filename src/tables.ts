@@ -0,0 +1,64 @@
+// テーブルのキーの正規化。意味を変えずに短く書けるキーを、printerが短い形で出力する。
+// - `t["field"]` → `t.field`、`{["field"]=v}` → `{field=v}`（キーの文字列が
+//   識別子として書ける場合）
+// - `{[1]=a,[2]=b}` → `{a,b}`（1から連続する整数のキーで、位置で決まるフィールドと
+//   衝突しない場合）
+//
+// ASTは複数のMinifier（ParseCache）で共有されるため変更せず、ASTだけから判定する。
+import Parser from "luaparse";
+import { isKeyword } from "./ast2lua";
+import { isMultiValueExpression } from "./locals";
+
+// エスケープを含まない引用符付きの識別子（`"field"`）。エスケープの解釈はLuaの
+// バージョンで異なる（5.1の`"\x41"`は`"x41"`）ため、エスケープを含むものは対象にしない
+const IDENTIFIER_LITERAL = /^(["'])([a-zA-Z_][a-zA-Z0-9_]*)\1$/;
+
+/**
+ * キーの式が識別子として書ける文字列リテラル（`"field"`）であれば、その名前を返す。
+ */
+export function identifierKeyOf(key: Parser.Expression): string | undefined {
+  if (key.type !== "StringLiteral") {
+    return undefined;
+  }
+  const name = IDENTIFIER_LITERAL.exec(key.raw)?.[2];
+  return name !== undefined && !isKeyword(name) ? name : undefined;
+}
+
+/**
+ * テーブルコンストラクタの`[1]=a`・`[2]=b`…のフィールドのうち、位置で決まる
+ * フィールド（`a`・`b`）として書けるものを返す。
+ *
+ * 位置で決まるフィールドが既にある場合や、文字列以外の式のキー（実行時に整数に
+ * なりうる）がある場合は、代入の順序で結果が変わりうるため書き換えない。
+ * テーブルの最後のフィールドの複数の値を返しうる式は、位置で決まるフィールドに
+ * すると全ての値が展開されるため、そのフィールドは書き換えない。
+ */
+export function positionalFieldsOf(
+  table: Parser.TableConstructorExpression,
+): ReadonlySet<Parser.TableKey> {
+  const keyed: Parser.TableKey[] = [];
+  for (const field of table.fields) {
+    if (field.type === "TableValue") {
+      return new Set();
+    }
+    if (field.type !== "TableKey" || field.key.type === "StringLiteral") {
+      continue;
+    }
+    if (
+      field.key.type !== "NumericLiteral" ||
+      field.key.value !== keyed.length + 1
+    ) {
+      return new Set();
+    }
+    keyed.push(field);
+  }
+  const last = table.fields[table.fields.length - 1];
+  if (
+    keyed.length > 0 &&
+    keyed[keyed.length - 1] === last &&
+    isMultiValueExpression(last.value)
+  ) {
+    keyed.pop();
+  }
+  return new Set(keyed);
+}
@@ -0,0 +1,79 @@
+// printerの出力（SourceNodeの木）の端の文字の取り出し。トークンの間に区切りが
+// 必要かどうか（`local a`+`local b`など）は、前の出力の末尾の数文字と次の出力の
+// 先頭の1文字だけで決まる。出力全体を文字列にすると、文を1つ足すたびにそれまでの
+// 出力をすべて連結することになり、モジュールの大きさの2乗の時間がかかるため、
+// 木の端から必要な文字だけを読む。
+import { SourceNode } from "source-map";
+
+export type Printable = string | SourceNode;
+
+const WORD_CHAR = /[a-zA-Z0-9_]/;
+
+// `joiner`で連結した`parts`を、端から順に読むための並び
+function joined(parts: readonly Printable[], joiner: string): Printable[] {
+  if (joiner === "" || parts.length < 2) {
+    return [...parts];
+  }
+  return parts.flatMap((part, ix) => (ix === 0 ? [part] : [joiner, part]));
+}
+
+function firstCharOf(parts: readonly Printable[]): string {
+  for (const part of parts) {
+    const char =
+      typeof part === "string" ? part.charAt(0) : firstCharOf(part.children);
+    if (char !== "") {
+      return char;
+    }
+  }
+  return "";
+}
+
+/**
+ * `parts`を`joiner`で連結した出力の先頭の文字（空なら""）。
+ */
+export function leadingChar(
+  parts: readonly Printable[] | Printable,
+  joiner = "",
+): string {
+  return firstCharOf(
+    Array.isArray(parts) ? joined(parts, joiner) : [parts as Printable],
+  );
+}
+
+// 末尾から文字を集める。末尾の識別子・数値の並び（`0x1f`など）の全体と、その直前の
+// 1文字（少なくとも2文字）を集めたら終える。集め終えたらtrueを返す
+function collectTail(parts: readonly Printable[], tail: string[]): boolean {
+  for (let ix = parts.length - 1; ix >= 0; ix--) {
+    const part = parts[ix];
+    if (typeof part !== "string") {
+      if (collectTail(part.children, tail)) {
+        return true;
+      }
+      continue;
+    }
+    for (let i = part.length - 1; i >= 0; i--) {
+      const char = part.charAt(i);
+      tail.push(char);
+      if (tail.length >= 2 && !WORD_CHAR.test(char)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * `parts`を`joiner`で連結した出力の末尾。区切りの判定に必要な分（末尾の識別子・
+ * 数値の全体と、その直前の1文字）だけを返す。出力がそれより短ければ全体を返す。
+ */
+export function trailingText(
+  parts: readonly Printable[] | Printable,
+  joiner = "",
+): string {
+  const tail: string[] = [];
+  collectTail(
+    Array.isArray(parts) ? joined(parts, joiner) : [parts as Printable],
+    tail,
+  );
+  return tail.reverse().join("");
+}
@@ -0,0 +1,116 @@
+// 実行時エラーの位置の変換（traceサブコマンド）。Stormworks・Luaのエラーメッセージと
+// スタックトレースは、minify後のコードの位置（`[string "..."]:1:`）と短縮名
+// （`local 'b'`）で報告されるため、Source Mapで元のファイル・行・列と元の名前に
+// 書き換える。
+//
+// 名前は、.names.json（短縮名の対応表）があればその位置から見えるシンボルを引き、
+// 無ければSource Mapのその位置のマッピングの名前（printerのgenerateIdentifierが
+// 付けた元の名前）を使う。
+import path from "path";
+import {
+  NullableMappedPosition,
+  RawSourceMap,
+  SourceMapConsumer,
+} from "source-map";
+import { findSymbolAt, NameMap } from "./names";
+
+// `[string "..."]:行:`・`main.min.lua:行:列:`のような位置の参照
+const LOCATION =
+  /(\[string "(?:[^"\\]|\\.)*"\]|[^\s:'"()<>[\]]+\.lua):(\d+)(?::(\d+))?/g;
+// `(local 'b')`・`in upvalue 'b'`・`in function 'b'`のような名前の参照
+const LOCAL_NAME = /\b(local|upvalue|function) '([A-Za-z_][A-Za-z0-9_]*)'/g;
+
+/**
+ * エラーメッセージ・スタックトレースの中の、minify後のコードの位置と短縮名を
+ * 元のファイル・位置・名前に書き換える。`map`はminify後のコードのSource Map、
+ * `names`は同じビルドの短縮名の対応表。
+ */
+export async function traceErrorText(
+  text: string,
+  map: RawSourceMap,
+  names?: NameMap,
+): Promise<string> {
+  const outputFile = path.basename(map.file);
+  const isOutputReference = (chunkName: string) =>
+    chunkName.startsWith("[string ") || path.basename(chunkName) === outputFile;
+
+  return SourceMapConsumer.with(map, null, (consumer) =>
+    text
+      .split("\n")
+      .map((line) => {
+        // この行の名前の参照は、行の中で最後に現れる位置の参照の位置で引く。
+        // 列が無い場合は、元の行の末尾の位置として引く
+        let original: NullableMappedPosition | undefined;
+        const traced = line.replace(
+          LOCATION,
+          (match: string, chunkName: string, row: string, col?: string) => {
+            if (!isOutputReference(chunkName)) {
+              return match;
+            }
+            const position = originalPositionOf(
+              consumer,
+              Number(row),
+              col === undefined ? undefined : Number(col),
+            );
+            if (position.source === null || position.line === null) {
+              return match;
+            }
+            original =
+              col === undefined
+                ? { ...position, column: Number.MAX_SAFE_INTEGER }
+                : position;
+            return (
+              position.source +
+              ":" +
+              String(position.line) +
+              (col === undefined ? "" : ":" + String(position.column))
+            );
+          },
+        );
+        const at = original;
+        if (!at || at.source === null || at.line === null) {
+          return traced;
+        }
+        const { source, line: sourceLine } = at;
+        return traced.replace(
+          LOCAL_NAME,
+          (match: string, kind: string, shortName: string) => {
+            const symbol =
+              names &&
+              findSymbolAt(
+                names,
+                source,
+                { line: sourceLine, column: at.column ?? 0 },
+                shortName,
+              );
+            const name = names ? symbol?.name : at.name;
+            return name === undefined || name === null
+              ? match
+              : kind + " '" + name + "'";
+          },
+        );
+      })
+      .join("\n"),
+  );
+}
+
+/**
+ * 出力の位置（行は1始まり、列は0始まり）を元のソースの位置に戻す。Luaの
+ * エラーメッセージのように列が無い場合は、その行の最初のマッピングを使う
+ * （名前は位置が特定できないため使わない）。
+ */
+function originalPositionOf(
+  consumer: SourceMapConsumer,
+  line: number,
+  column: number | undefined,
+): NullableMappedPosition {
+  if (column !== undefined) {
+    return consumer.originalPositionFor({ line, column });
+  }
+  const position = consumer.originalPositionFor({
+    line,
+    column: 0,
+    bias: SourceMapConsumer.LEAST_UPPER_BOUND,
+  });
+  return { ...position, name: null };
+}
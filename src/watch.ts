@@ -0,0 +1,108 @@
+import fs from "fs";
+
+/**
+ * ファイル1つを監視し、変更時に`onChange`を呼ぶ。戻り値は監視を解除する関数。
+ * テストから差し替えられるよう、監視の実体は`WatchOptions.watchFile`で注入する。
+ */
+export type WatchFileFunction = (
+  filePath: string,
+  onChange: () => void,
+) => () => void;
+
+export interface WatchOptions {
+  // 変更検知から再ビルドまでの待ち時間（ミリ秒）。エディタの保存で複数回
+  // 変更通知が来ても再ビルドを1回にまとめるために使う。省略時は100。
+  debounceMs?: number;
+  watchFile?: WatchFileFunction;
+}
+
+export interface Watcher {
+  // 現在監視しているファイルパスの集合
+  readonly watchedFiles: ReadonlySet<string>;
+  close(): void;
+}
+
+// fs.watchはエディタのアトミック保存（一時ファイルからのrename）で監視が外れたり、
+// 存在しないファイルを監視できなかったりするため、stat()のポーリングで監視する。
+// これにより、まだ存在しないrequire先が後から作られた場合も検知できる。
+const defaultWatchFile: WatchFileFunction = (filePath, onChange) => {
+  const listener = (curr: fs.Stats, prev: fs.Stats) => {
+    if (curr.mtimeMs !== prev.mtimeMs || curr.nlink !== prev.nlink) {
+      onChange();
+    }
+  };
+  fs.watchFile(filePath, { interval: 250 }, listener);
+  return () => {
+    fs.unwatchFile(filePath, listener);
+  };
+};
+
+/**
+ * `rebuild`を即座に1回実行し、その戻り値（ビルドが読み込んだファイルパス）を監視する。
+ * いずれかのファイルが変更されるたびに`rebuild`を再実行し、監視対象を戻り値に
+ * 合わせて更新する（新たにrequire/dofileされたファイルは監視を開始し、参照されなく
+ * なったファイルは監視を解除する）。
+ *
+ * `rebuild`は例外を投げずに、ビルドに失敗した場合でも監視を続けたいファイルを
+ * 返すこと（パースエラーで監視が止まらないようにするのは呼び出し側の責務）。
+ */
+export function watchBuild(
+  rebuild: () => Iterable<string>,
+  options: WatchOptions = {},
+): Watcher {
+  const debounceMs = options.debounceMs ?? 100;
+  const watchFile = options.watchFile ?? defaultWatchFile;
+  const unwatchers = new Map<string, () => void>();
+  let timer: NodeJS.Timeout | undefined;
+  let closed = false;
+
+  const schedule = () => {
+    if (closed) {
+      return;
+    }
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = undefined;
+      run();
+    }, debounceMs);
+  };
+
+  const run = () => {
+    const files = new Set(rebuild());
+    if (closed) {
+      return;
+    }
+    unwatchers.forEach((unwatch, filePath) => {
+      if (!files.has(filePath)) {
+        unwatch();
+        unwatchers.delete(filePath);
+      }
+    });
+    files.forEach((filePath) => {
+      if (!unwatchers.has(filePath)) {
+        unwatchers.set(filePath, watchFile(filePath, schedule));
+      }
+    });
+  };
+
+  run();
+
+  return {
+    get watchedFiles() {
+      return new Set(unwatchers.keys());
+    },
+    close() {
+      closed = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+      unwatchers.forEach((unwatch) => {
+        unwatch();
+      });
+      unwatchers.clear();
+    },
+  };
+}
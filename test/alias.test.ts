@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import luaparse from "luaparse";
+import { minify } from "../src/index";
+import {
+  MAX_LOCAL_VARIABLES,
+  maxActiveLocals,
+  resolveScopes,
+} from "../src/resolver";
+
+// グローバルのフィールド参照のエイリアス化（--alias-globals）: 繰り返し参照される
+// パスがチャンク先頭のローカルに置き換わり、代入されるグローバルは置き換わらない
+// ことを検証する。
+
+function minifyWithAliases(
+  modules: Record<string, string>,
+  rename?: boolean,
+): string {
+  return minify({ entry: "main.lua", modules, aliasGlobals: true, rename })
+    .code;
+}
+
+void test("繰り返し参照されるフィールドがチャンク先頭のローカルに置き換わる", () => {
+  assert.equal(
+    minifyWithAliases({
+      "main.lua":
+        "function onDraw()\n  screen.drawRect(1, 2, 3, 4)\n  screen.drawRect(5, 6, 7, 8)\n  screen.drawRect(9, 9, 9, 9)\n  screen.drawText(1, 1, math.floor(input.getNumber(1)) + math.floor(input.getNumber(2)))\n  output.setNumber(1, input.getNumber(3))\nend\n",
+    }),
+    "local a,b,c=screen.drawRect,input.getNumber,math.floor\nfunction onDraw()a(1,2,3,4)a(5,6,7,8)a(9,9,9,9)screen.drawText(1,1,c(b(1))+c(b(2)))output.setNumber(1,b(3))end",
+  );
+});
+
+void test("代入されるグローバル・ローカル・短くならないパスは置き換えない", () => {
+  assert.equal(
+    minifyWithAliases({
+      "main.lua":
+        'require("lib")\nlocal math = { floor = 1 }\nprint(Util.value, Util.value, Util.value, Util.value)\nprint(math.floor, math.floor, math.floor, math.floor)\nprint(a.b, a.b, a.b, a.b)\n',
+      "lib.lua": "Util = {}\nUtil.value = 1\n",
+    }),
+    "Util={}Util.value=1\nlocal b={floor=1}print(Util.value,Util.value,Util.value,Util.value)print(b.floor,b.floor,b.floor,b.floor)print(a.b,a.b,a.b,a.b)",
+  );
+});
+
+void test("リネームしない場合はエイリアス化しない", () => {
+  assert.equal(
+    minifyWithAliases(
+      {
+        "main.lua":
+          "print(math.floor(1), math.floor(2), math.floor(3), math.floor(4))",
+      },
+      false,
+    ),
+    "print(math.floor(1),math.floor(2),math.floor(3),math.floor(4))",
+  );
+});
+
+void test("SLモードでは展開される全モジュールのローカルと合わせて上限を超えない", () => {
+  // 各モジュールに60個のローカルと、エイリアス化できる10個のパスを置く
+  const moduleOf = (prefix: string) => {
+    const names = Array.from({ length: 60 }, (_, i) => prefix + String(i));
+    const locals = names.map((name) => "local " + name + " = f()\n");
+    const uses = Array.from({ length: 10 }, (_, i) => {
+      const path = prefix + "api.f" + String(i);
+      const str = '"' + prefix + "str" + String(i) + '"';
+      return (
+        "print(" + [path, path, path, path, str, str, str].join(", ") + ")\n"
+      );
+    });
+    return (
+      locals.join("") + uses.join("") + "print(" + names.join(", ") + ")\n"
+    );
+  };
+  const code = minifyWithAliases({
+    "main.lua": 'require("b")\nrequire("c")\n' + moduleOf("a"),
+    "b.lua": moduleOf("b"),
+    "c.lua": moduleOf("c"),
+  });
+  const ast = luaparse.parse(code, { luaVersion: "5.3", scope: true });
+  assert.ok(
+    maxActiveLocals(resolveScopes(ast).chunkScope) <= MAX_LOCAL_VARIABLES,
+  );
+  // 上限までの残りの20個はエイリアスに使う
+  assert.match(code, /=bapi\.f0,/);
+});
@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SourceNode } from "source-map";
+import { minify } from "../src/index";
+import { benchmarkBundle } from "./lib/helpers";
+
+// printerの処理量が出力の長さにほぼ比例することを検証する。トークンの間の区切りを
+// 出力全体の文字列から判定すると、文を1つ足すたびにそれまでの出力をすべて連結する
+// ことになるため、SourceNodeを文字列にする長さが出力の一部に収まることを確かめる。
+// 処理時間の計測は`npm run benchmark`（test/benchmark.ts）で行う。
+
+void test("benchmark: 区切りの判定のために出力全体を文字列にしない", (t) => {
+  const single = minify({
+    entry: "main.lua",
+    modules: { "main.lua": benchmarkBundle(1) },
+  }).code;
+  const toString = t.mock.method(SourceNode.prototype, "toString");
+  minify({ entry: "main.lua", modules: { "main.lua": benchmarkBundle(20) } });
+  const lengths = toString.mock.calls.map((call) => call.result?.length ?? 0);
+  // 文字列にするのは畳み込み・末尾のカンマの判定をする小さな式だけ
+  assert.ok(lengths.length > 0);
+  assert.ok(
+    Math.max(...lengths) < single.length,
+    "longest: " + String(Math.max(...lengths)),
+  );
+});
@@ -0,0 +1,37 @@
+// printerの処理時間が出力の長さにほぼ比例することの計測（`npm run benchmark`）。
+// 実行環境の負荷で揺らぐため`npm test`には含めない。典型的なスクリプトを繰り返した
+// 入力で、16倍の大きさの入力の処理時間が24倍に収まらなければ失敗する。比例していれば
+// 16倍（実測12倍前後）、出力全体を文字列にして区切りを判定していた頃は出力の長さの
+// 2乗に比例して46倍近くかかっていた。
+import { minify } from "../src/index";
+import { benchmarkBundle } from "./lib/helpers";
+
+// 3回実行した中で最も短い処理時間（ミリ秒）
+function minifyTime(code: string): number {
+  let best = Infinity;
+  for (let i = 0; i < 3; i++) {
+    const start = process.hrtime.bigint();
+    minify({ entry: "main.lua", modules: { "main.lua": code } });
+    best = Math.min(best, Number(process.hrtime.bigint() - start) / 1e6);
+  }
+  return best;
+}
+
+// JITの最適化が済むまでの時間を計測に含めない
+minifyTime(benchmarkBundle(10));
+const small = minifyTime(benchmarkBundle(20));
+const large = minifyTime(benchmarkBundle(320));
+const ratio = large / small;
+console.log(
+  "20 copies: " +
+    small.toFixed(1) +
+    "ms, 320 copies: " +
+    large.toFixed(1) +
+    "ms (x" +
+    ratio.toFixed(1) +
+    ")",
+);
+if (ratio >= 24) {
+  console.error("minify time grows faster than the output length");
+  process.exitCode = 1;
+}
@@ -0,0 +1,85 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SourceNode } from "source-map";
+import { Minifier } from "../src/minifier";
+import { buildMinifiedOutput } from "../src/output";
+import {
+  countChars,
+  formatBudgetReport,
+  measureOutputSize,
+  UNMAPPED_SOURCE,
+} from "../src/budget";
+import { LUAPARSE_SETTINGS, fixtureEntryPath } from "./lib/helpers";
+
+// --max-chars の文字数集計が、出力全体の文字数と一致し、由来モジュールごとに
+// 正しく振り分けられることを検証する。
+
+void test("measureOutputSize: モジュールごとの内訳の合計が出力全体の文字数と一致する", () => {
+  const sourceNode = new Minifier(
+    fixtureEntryPath("nested-module"),
+    LUAPARSE_SETTINGS,
+    { moduleLikeLua: true },
+  ).parse();
+  const { code } = buildMinifiedOutput(
+    sourceNode,
+    "main.min.lua",
+    "main.lua.map",
+  );
+
+  const breakdown = measureOutputSize(sourceNode);
+  assert.equal(breakdown.total, countChars(code));
+  assert.equal(
+    [...breakdown.bySource.values()].reduce((a, b) => a + b, 0),
+    breakdown.total,
+  );
+  // -mモードのrequire本体は、ラッパーではなくrequireされたモジュール側に計上される
+  assert.equal(
+    breakdown.bySource.get("sub/deep.lua"),
+    "return{value=1}".length,
+  );
+  assert.equal(
+    breakdown.bySource.get("main.lua"),
+    'local a=require("sub.deep")print(a.value)'.length,
+  );
+  assert.ok((breakdown.bySource.get(UNMAPPED_SOURCE) ?? 0) > 0);
+});
+
+void test("measureOutputSize: SLモードでその場展開されたモジュールは展開されたモジュール側に計上される", () => {
+  const sourceNode = new Minifier(
+    fixtureEntryPath("dofile"),
+    LUAPARSE_SETTINGS,
+    { moduleLikeLua: false },
+  ).parse();
+  const code = sourceNode.toString();
+
+  const breakdown = measureOutputSize(sourceNode);
+  assert.equal(breakdown.total, code.length);
+  assert.ok((breakdown.bySource.get("greet.lua") ?? 0) > 0);
+  assert.ok((breakdown.bySource.get("main.lua") ?? 0) > 0);
+  assert.equal(breakdown.bySource.get(UNMAPPED_SOURCE), undefined);
+});
+
+void test("countChars: サロゲートペアを1文字として数える", () => {
+  assert.equal(countChars('print("🚗")'), 10);
+});
+
+void test("formatBudgetReport: 超過文字数と、文字数の多い順の内訳を表示する", () => {
+  const sourceNode = new SourceNode(null, null, null, [
+    new SourceNode(1, 0, "main.lua", "print(1)"),
+    new SourceNode(1, 0, "lib/big.lua", "local a=1234567890"),
+  ]);
+
+  const report = formatBudgetReport(
+    "main.min.lua",
+    measureOutputSize(sourceNode),
+    20,
+  );
+  assert.equal(
+    report,
+    [
+      "main.min.lua: 26 / 20 characters (6 over budget)",
+      "  lib/big.lua  18",
+      "  main.lua     8",
+    ].join("\n"),
+  );
+});
@@ -0,0 +1,139 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadConfig, defaultOutputPaths } from "../src/config";
+import { Minifier, ParseCache } from "../src/minifier";
+import { FIXTURES_DIR, LUAPARSE_SETTINGS } from "./lib/helpers";
+
+// 設定ファイル（storm-lua-minify.config.json）の読み込みと、複数エントリの
+// ビルドで共有モジュールを一度だけパースすることを検証する。
+
+const CONFIG_DIR = path.join(FIXTURES_DIR, "config");
+const CONFIG_PATH = path.join(CONFIG_DIR, "storm-lua-minify.config.json");
+
+function writeTempConfig(config: unknown): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "storm-lua-minify-"));
+  const configPath = path.join(dir, "storm-lua-minify.config.json");
+  fs.writeFileSync(configPath, JSON.stringify(config));
+  return configPath;
+}
+
+void test("loadConfig: パスを設定ファイルのディレクトリ基準で解決し、defaultsにエントリの指定を重ねる", () => {
+  const targets = loadConfig(CONFIG_PATH);
+
+  assert.deepEqual(targets, [
+    {
+      entry: path.join(CONFIG_DIR, "src", "radar.lua"),
+      output: path.join(CONFIG_DIR, "dist", "radar.min.lua"),
+      map: path.join(CONFIG_DIR, "src", "radar.lua.map"),
+      options: {
+        moduleLikeLua: true,
+        searchPath: ["?.lua", "../shared/?.lua"],
+      },
+    },
+    {
+      entry: path.join(CONFIG_DIR, "src", "engine.lua"),
+      output: path.join(CONFIG_DIR, "src", "engine.min.lua"),
+      map: path.join(CONFIG_DIR, "maps", "engine.map"),
+      options: {
+        moduleLikeLua: true,
+        searchPath: ["?.lua", "../shared/?.lua"],
+        rename: false,
+        luaVersion: "5.2",
+      },
+    },
+  ]);
+});
+
+void test("defaultOutputPaths: CLIでエントリを直接指定した場合と同じ出力先になる", () => {
+  assert.deepEqual(defaultOutputPaths(path.join("src", "main.lua")), {
+    output: path.join("src", "main.min.lua"),
+    map: path.join("src", "main.lua.map"),
+  });
+});
+
+void test("loadConfig: 未知のオプション・不正な値・entriesの欠落はエラーになる", () => {
+  assert.throws(
+    () =>
+      loadConfig(
+        writeTempConfig({ entries: [{ entry: "a.lua", renam: false }] }),
+      ),
+    /entries\[0\]: unknown option "renam"/,
+  );
+  assert.throws(
+    () =>
+      loadConfig(
+        writeTempConfig({
+          defaults: { luaVersion: "5.4" },
+          entries: [{ entry: "a.lua" }],
+        }),
+      ),
+    /defaults: invalid value for "luaVersion": "5.4"/,
+  );
+  assert.throws(
+    () =>
+      loadConfig(
+        writeTempConfig({ entries: [{ entry: "a.lua", mangleFields: "(" }] }),
+      ),
+    /entries\[0\]: invalid value for "mangleFields"/,
+  );
+  assert.throws(
+    () =>
+      loadConfig(
+        writeTempConfig({
+          entries: [{ entry: "a.lua", keepNames: { "a.lua": "[" } }],
+        }),
+      ),
+    /entries\[0\]: invalid value for "keepNames"/,
+  );
+  assert.throws(
+    () =>
+      loadConfig(
+        writeTempConfig({ entries: [{ entry: "a.lua", dropCalls: ["@x"] }] }),
+      ),
+    /entries\[0\]: invalid value for "dropCalls"/,
+  );
+  assert.throws(
+    () => loadConfig(writeTempConfig({ defaults: {} })),
+    /"entries" must be a non-empty array/,
+  );
+  assert.throws(
+    () => loadConfig(writeTempConfig({ entries: [{ output: "a.min.lua" }] })),
+    /entries\[0\]: "entry" must be a string/,
+  );
+});
+
+void test("ParseCache: 複数エントリで共有されるモジュールは一度だけパースされ、どちらの出力も正しい", () => {
+  const parseCache = new ParseCache();
+  const [radar, engine] = loadConfig(CONFIG_PATH).map((target) => {
+    const minifier = new Minifier(
+      target.entry,
+      LUAPARSE_SETTINGS,
+      { moduleLikeLua: false, searchPath: target.options.searchPath },
+      undefined,
+      parseCache,
+    );
+    return { minifier, code: minifier.parse().toString() };
+  });
+
+  assert.equal(
+    radar.minifier.moduleAST.get("util"),
+    engine.minifier.moduleAST.get("util"),
+  );
+  // 共有ASTのコメントを並べ替えてしまうと、2回目以降の出力が壊れる
+  assert.equal(radar.code.match(/--# shared helper/g)?.length, 1);
+  assert.equal(engine.code.match(/--# shared helper/g)?.length, 1);
+  assert.match(engine.code, /input\.getNumber\(2\),-1,1\)/);
+});
+
+void test("ParseCache: 内容が変わったファイルは再パースする", () => {
+  const parseCache = new ParseCache();
+  const first = parseCache.parse("return 1", LUAPARSE_SETTINGS, "m.lua");
+  assert.equal(parseCache.parse("return 1", LUAPARSE_SETTINGS, "m.lua"), first);
+  assert.notEqual(
+    parseCache.parse("return 2", LUAPARSE_SETTINGS, "m.lua"),
+    first,
+  );
+});
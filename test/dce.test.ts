@@ -0,0 +1,109 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createModuleMapLoader, minify } from "../src/index";
+import { formatDeadCodeReport } from "../src/dce";
+import { DEFAULT_LUAPARSE_SETTINGS, Minifier } from "../src/minifier";
+
+// 不要コードの除去（DCE）: 到達しない文・読まれないローカルが出力から取り除かれ、
+// 副作用があるかもしれないコードは残ることを検証する。
+
+function minifyMain(code: string): string {
+  return minify({ entry: "main.lua", modules: { "main.lua": code } }).code;
+}
+
+void test("読まれないローカルと、それへの代入が取り除かれる", () => {
+  assert.equal(
+    minifyMain(
+      'local unused = 1\nlocal t = { x = 1, y = "s" }\nlocal w = 0\nw = 5\nprint("ok")\n',
+    ),
+    'print("ok")',
+  );
+});
+
+void test("呼ばれないローカル関数は、自身の再帰呼び出しがあっても取り除かれる", () => {
+  assert.equal(
+    minifyMain(
+      "local function loop(n)\n  return loop(n - 1)\nend\nlocal function used()\n  return 1\nend\nprint(used())\n",
+    ),
+    "local function a()return 1 end\nprint(a())",
+  );
+});
+
+void test("取り除いた文からしか読まれないローカルも取り除かれる", () => {
+  assert.equal(
+    minifyMain("local a = 1\nlocal b = { a }\nprint(2)\n"),
+    "print(2)",
+  );
+});
+
+void test("副作用があるかもしれない初期化式・代入は取り除かない", () => {
+  assert.equal(
+    minifyMain(
+      "local c = compute()\nlocal g = math.pi\nlocal x = ...\nlocal y = x + 1\nlocal z = 1\nz = f()\n",
+    ),
+    "local c,d,a=compute(),math.pi,...local e,b=a+1,1\nb=f()",
+  );
+});
+
+void test("到達しない文と、条件が偽に決まるwhile文が取り除かれる", () => {
+  assert.equal(
+    minifyMain(
+      'while false do\n  print("never")\nend\nfor i = 1, 3 do\n  if i == 2 then\n    break\n    print("after break")\n  end\n  goto continue\n  print("skipped")\n  ::continue::\n  print(i)\nend\n',
+    ),
+    "for a=1,3 do if a==2 then break end\ngoto b::b::print(a)end",
+  );
+});
+
+void test("取り除いたコードとその位置を報告できる", () => {
+  const minifier = new Minifier(
+    "main.lua",
+    DEFAULT_LUAPARSE_SETTINGS,
+    { moduleLikeLua: false },
+    createModuleMapLoader({
+      "main.lua":
+        'local unused = 1\nlocal w = 0\nw = 5\nif false then\n  print("x")\nend\nwhile false do\n  local inner = 1\nend\nreturn 1\n',
+    }),
+  );
+  minifier.parse();
+  assert.equal(
+    formatDeadCodeReport(minifier.deadCodeRemovals()),
+    [
+      'main.lua: [1:0] removed unused local "unused"',
+      'main.lua: [2:0] removed unused local "w"',
+      'main.lua: [3:0] removed assignment to unused local "w"',
+      "main.lua: [4:0] removed if branch that can never run",
+      "main.lua: [7:0] removed while loop whose condition is always false",
+    ].join("\n"),
+  );
+});
+
+void test("取り除く呼び出しに一致するグローバル・requireしたモジュールのメンバーの呼び出しは、引数ごと取り除かれる", () => {
+  const { code } = minify({
+    entry: "main.lua",
+    modules: {
+      "main.lua":
+        'local log = require("log")\nlocal message = "speed" .. 1\ndebug.log(message)\nlog.trace(message)\nlog.info("ok")\nprint(input.getNumber(1))\n',
+      "log.lua":
+        "local M = {}\nfunction M.trace(...) end\nfunction M.info(...) end\nreturn M\n",
+    },
+    dropCalls: ["@stormworks", "log.trace", "print"],
+  });
+  // 読まれなくなったローカル（message）も取り除かれる
+  assert.equal(
+    code,
+    'local a={}function a.trace(...)end\nfunction a.info(...)end local b=a\nb.info("ok")',
+  );
+  // 同じ名前でもローカル変数の呼び出しは対象にしない
+  assert.equal(
+    minify({
+      entry: "main.lua",
+      modules: { "main.lua": "local print = output.setNumber\nprint(1, 2)\n" },
+      dropCalls: ["print"],
+    }).code,
+    "local a=output.setNumber\na(1,2)",
+  );
+  assert.throws(
+    () => minify({ entry: "main.lua", modules: {}, dropCalls: ["@unknown"] }),
+    /Unknown drop-calls preset "@unknown"/,
+  );
+});
@@ -0,0 +1,138 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { minify } from "../src/index";
+import { Defines, parseDefine } from "../src/defines";
+import { loadConfig } from "../src/config";
+
+// --define（コンパイル時定数）による参照の置き換えと、定数条件のif節の除去を検証する。
+
+function minifyMain(code: string, defines: Defines): string {
+  return minify({
+    entry: "main.lua",
+    modules: { "main.lua": code },
+    defines,
+  }).code;
+}
+
+void test("parseDefine: Luaのリテラルとして値を解釈し、省略時はtrueになる", () => {
+  assert.deepEqual(parseDefine("DEBUG"), ["DEBUG", true]);
+  assert.deepEqual(parseDefine("DEBUG=false"), ["DEBUG", false]);
+  assert.deepEqual(parseDefine("X=nil"), ["X", null]);
+  assert.deepEqual(parseDefine("RATE=-0.5"), ["RATE", -0.5]);
+  // 整数の値でも浮動小数点数の表記であれば区別を残す
+  assert.deepEqual(parseDefine("X=1.0"), ["X", { float: 1 }]);
+  assert.deepEqual(parseDefine("X=-1e3"), ["X", { float: -1000 }]);
+  assert.deepEqual(parseDefine("X=0x10"), ["X", 16]);
+  assert.deepEqual(parseDefine('NAME="1.0"'), ["NAME", "1.0"]);
+  assert.deepEqual(parseDefine("NAME=radar"), ["NAME", "radar"]);
+  assert.throws(() => parseDefine("end=1"), /Invalid define name/);
+  assert.throws(() => parseDefine("1X=1"), /Invalid define name/);
+});
+
+void test("定義したグローバル参照は値のリテラルに置き換わる", () => {
+  assert.equal(
+    minifyMain("print(VERSION, RATE, NAME)\n", {
+      VERSION: 3,
+      RATE: 0.5,
+      NAME: 'a"b\n',
+    }),
+    "print(3,.5,'a\"b\\n')",
+  );
+});
+
+void test("5.3では浮動小数点数の定数は整数として読まれない表記になる", () => {
+  const defines = Object.fromEntries(
+    ["X=1.0", "Y=1e3", "Z=-0.0", "N=1"].map(parseDefine),
+  );
+  assert.equal(
+    minifyMain('print(X, Y, Z, N, X .. "", Y // 7, N // 1)\n', defines),
+    'print(1.,1e3,-0.,1,"1.0",142.,1)',
+  );
+});
+
+void test("負の数の定数は演算子の優先順位に従って括弧で囲まれる", () => {
+  assert.equal(
+    minifyMain("print(OFFSET ^ x, OFFSET - x)\n", { OFFSET: -3 }),
+    "print((-3)^x,-3-x)",
+  );
+  assert.equal(
+    minifyMain("print(NAME:upper(), NAME.len)\n", { NAME: "x" }),
+    'print(("x"):upper(),("x").len)',
+  );
+});
+
+void test("条件が偽に決まるif文は出力されない", () => {
+  assert.equal(
+    minifyMain('if DEBUG then\n  print("debug")\nend\nprint("ok")\n', {
+      DEBUG: false,
+    }),
+    'print("ok")',
+  );
+});
+
+void test("条件が真に決まるif文は本体だけが残り、localを含む場合はdoで囲まれる", () => {
+  assert.equal(
+    minifyMain('if DEBUG then\n  print("debug")\nend\n', { DEBUG: true }),
+    'print("debug")',
+  );
+  assert.equal(
+    minifyMain(
+      "if not DEBUG then\nelse\n  local x = 1\n  print(x)\nend\nlocal x = 2\nprint(x)\n",
+      { DEBUG: true },
+    ),
+    "do local a=1\nprint(a)end\nlocal b=2\nprint(b)",
+  );
+});
+
+void test("elseif節も定数条件で取り除かれ、残りの節は元の構造を保つ", () => {
+  const code =
+    'if MODE == "a" then\n  f()\nelseif MODE == "b" then\n  g()\nelseif x then\n  h()\nelse\n  i()\nend\n';
+  assert.equal(minifyMain(code, { MODE: "b" }), "g()");
+  assert.equal(minifyMain(code, { MODE: "c" }), "if x then h()else i()end");
+});
+
+void test("定数が定義されていない場合は通常のグローバル参照として扱われる", () => {
+  assert.equal(
+    minifyMain("if DEBUG then\n  print(1)\nend\n", {}),
+    "if DEBUG then print(1)end",
+  );
+});
+
+void test("定数への代入はエラーになる", () => {
+  assert.throws(
+    () => minifyMain("DEBUG = true\n", { DEBUG: false }),
+    /main\.lua: \[1:0\] cannot assign to "DEBUG", which is defined as a compile-time constant/,
+  );
+});
+
+void test("設定ファイルのdefinesはdefaultsとエントリで名前ごとに重ねられる", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "defines-config-"));
+  try {
+    const configPath = path.join(dir, "storm-lua-minify.config.json");
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        defaults: { defines: { DEBUG: false, LEVEL: 1 } },
+        entries: [{ entry: "main.lua", defines: { DEBUG: true, NAME: null } }],
+      }),
+    );
+    assert.deepEqual(loadConfig(configPath)[0].options.defines, {
+      DEBUG: true,
+      LEVEL: 1,
+      NAME: null,
+    });
+
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        entries: [{ entry: "main.lua", defines: { DEBUG: [1] } }],
+      }),
+    );
+    assert.throws(() => loadConfig(configPath), /invalid value for "defines"/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
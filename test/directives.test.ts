@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { minify } from "../src/index";
+import { Defines } from "../src/defines";
+import { applyDirectives } from "../src/directives";
+
+// 条件コンパイルの指示コメント（--#if・--#elseif・--#else・--#endif）を検証する。
+
+const VARIANTS = [
+  "--#if RADAR",
+  "local sensor = input.getNumber(1)",
+  "--#elseif SONAR",
+  "local sensor = input.getNumber(2)",
+  "--#else",
+  "local sensor = 0",
+  "--#endif",
+  "function onTick()",
+  "  output.setNumber(1, sensor)",
+  "end",
+  "",
+].join("\n");
+
+function minifyMain(code: string, defines: Defines): string {
+  return minify({
+    entry: "main.lua",
+    modules: { "main.lua": code },
+    defines,
+  }).code;
+}
+
+void test("定数の値により節を選び、選ばれなかった節は出力されない", () => {
+  assert.equal(
+    minifyMain(VARIANTS, { RADAR: true, SONAR: true }),
+    "local a=input.getNumber(1)function onTick()output.setNumber(1,a)end",
+  );
+  assert.equal(
+    minifyMain(VARIANTS, { RADAR: false, SONAR: 1 }),
+    "local a=input.getNumber(2)function onTick()output.setNumber(1,a)end",
+  );
+  assert.equal(
+    minifyMain(VARIANTS, {}),
+    "local a=0\nfunction onTick()output.setNumber(1,a)end",
+  );
+});
+
+void test("行番号は変わらず、入れ子の内側は外側が選ばれた場合のみ残る", () => {
+  const code = [
+    "--#if not RELEASE",
+    "--#if VERBOSE",
+    "print(1)",
+    "--#endif",
+    "print(2)",
+    "--#endif",
+  ].join("\n");
+  assert.equal(
+    applyDirectives(code, { VERBOSE: true }, "main.lua"),
+    "\n\nprint(1)\n\nprint(2)\n",
+  );
+  assert.equal(
+    applyDirectives(code, { RELEASE: true, VERBOSE: true }, "main.lua"),
+    "\n\n\n\n\n",
+  );
+});
+
+void test("対応の取れない指示コメントはファイル名と位置付きのエラーになる", () => {
+  assert.throws(
+    () => applyDirectives("print(1)\n  --#endif\n", {}, "main.lua"),
+    /^Error: main\.lua: \[2:2\] --#endif without a matching --#if$/,
+  );
+  assert.throws(
+    () => applyDirectives("--#if A\n--#else\n--#else\n--#endif\n", {}, "a.lua"),
+    /a\.lua: \[3:0\] duplicate --#else/,
+  );
+  assert.throws(
+    () => applyDirectives("--#if A\nprint(1)\n", {}, "a.lua"),
+    /a\.lua: \[1:0\] --#if without a matching --#endif/,
+  );
+  assert.throws(
+    () => applyDirectives("--#if A == 1\n--#endif\n", {}, "a.lua"),
+    /a\.lua: \[1:0\] expected a name after the directive/,
+  );
+});
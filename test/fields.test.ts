@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { minify } from "../src/index";
+
+// フィールド名の短縮（--mangle-fields）: パターン・一覧に合うフィールド名が全モジュールで
+// 一貫して置き換わり、Stormworks API・標準ライブラリのフィールドは置き換わらない
+// ことを検証する。
+
+const modules = {
+  "main.lua":
+    'local lib = require("lib")\nlocal state = { _altitude = 0, _speed = 1, ["_mode"] = "a" }\nfunction state:_update(dt)\n  self._altitude = self._altitude + dt * self._speed\n  screen.drawText(1, 1, state["_mode"])\nend\nfunction onTick()\n  state:_update(1)\n  lib._helper(state._speed, state.a)\nend\n',
+  "lib.lua": "local M = {}\nfunction M._helper(x) return x end\nreturn M\n",
+};
+
+void test("パターンに合うフィールド名が全モジュールで一貫して短縮される", () => {
+  assert.equal(
+    minify({ entry: "main.lua", modules, mangleFields: "^_" }).code,
+    'local a={}function a.d(b)return b end local d=a\nlocal c={b=0,c=1,e="a"}function c:f(e)self.b=self.b+e*self.c\nscreen.drawText(1,1,c.e)end\nfunction onTick()c:f(1)d.d(c.c,c.a)end',
+  );
+});
+
+void test("一覧で指定したフィールド名だけが短縮される", () => {
+  assert.equal(
+    minify({ entry: "main.lua", modules, mangleFields: ["_speed"] }).code,
+    'local a={}function a._helper(b)return b end local d=a\nlocal c={_altitude=0,b=1,_mode="a"}function c:_update(e)self._altitude=self._altitude+e*self.b\nscreen.drawText(1,1,c._mode)end\nfunction onTick()c:_update(1)d._helper(c.b,c.a)end',
+  );
+});
+
+void test("Stormworks API・標準ライブラリ・メタメソッドのフィールドは短縮しない", () => {
+  assert.equal(
+    minify({
+      entry: "main.lua",
+      modules: {
+        "main.lua":
+          "math._cache = {}\nlocal s = screen\ns.drawText(1, 1, ('x'):upper())\nlocal t = setmetatable({}, { __index = math._cache })\noutput.setNumber(1, t._value)\n",
+      },
+      mangleFields: ".",
+    }).code,
+    "math._cache={}local a=screen\na.drawText(1,1,('x'):upper())local b=setmetatable({},{__index=math._cache})output.setNumber(1,b.a)",
+  );
+});
@@ -0,0 +1,49 @@
+-- 出力の文字数・処理時間の計測用の、典型的なマイコンのスクリプト
+local PID_P = property.getNumber("P Gain")
+local PID_I = property.getNumber("I Gain")
+local PID_D = property.getNumber("D Gain")
+
+local function clamp(value, low, high)
+  if value < low then
+    return low
+  elseif value > high then
+    return high
+  end
+  return value
+end
+
+local function newPid(p, i, d)
+  return { p = p, i = i, d = d, integral = 0, previous = 0 }
+end
+
+local function stepPid(pid, target, current)
+  local err = target - current
+  pid.integral = clamp(pid.integral + err * pid.i, -1, 1)
+  local derivative = (err - pid.previous) * pid.d
+  pid.previous = err
+  return clamp(err * pid.p + pid.integral + derivative, -1, 1)
+end
+
+local pitch = newPid(PID_P, PID_I, PID_D)
+local targets = { 0x10, 0.5, 1e3, -2 ^ 2, #"label" }
+local label = "alt " .. 0xff .. " m"
+
+function onTick()
+  local altitude = input.getNumber(1)
+  local enabled = input.getBool(1) and not input.getBool(2)
+  local output = 0
+  for index = 1, #targets do
+    if enabled then
+      output = output + stepPid(pitch, targets[index], altitude) / #targets
+    end
+  end
+  output.setNumber(1, output)
+  output.setBool(1, output > 0 or altitude ~= altitude)
+end
+
+function onDraw()
+  local w, h = screen.getWidth(), screen.getHeight()
+  screen.setColor(0, 255, 0)
+  screen.drawText(2, 2, label .. ": " .. string.format("%.1f", pitch.previous))
+  screen.drawRectF(w / 2 - 1, h / 2 - 1, 2, 2)
+end
@@ -0,0 +1,6 @@
+--# shared helper
+local function clamp(value, low, high)
+  return math.max(low, math.min(high, value))
+end
+
+return { clamp = clamp }
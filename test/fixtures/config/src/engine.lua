@@ -0,0 +1,3 @@
+local util = require("util")
+local throttle = util.clamp(input.getNumber(2), -1, 1)
+output.setNumber(1, throttle)
@@ -0,0 +1,3 @@
+local util = require("util")
+local range = util.clamp(input.getNumber(1), 0, 100)
+output.setNumber(1, range)
@@ -0,0 +1,2 @@
+local broken = require("broken")
+print(broken)
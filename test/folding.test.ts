@@ -0,0 +1,85 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { minify } from "../src/index";
+import { DEFAULT_LUAPARSE_SETTINGS } from "../src/minifier";
+
+// 定数畳み込み: リテラルだけからなる部分式がLua 5.3の意味論で評価され、
+// 出力が短くなる場合に限り値のリテラルに置き換わることを検証する。
+
+function minifyMain(code: string, luaVersion: "5.1" | "5.3" = "5.3"): string {
+  return minify({
+    entry: "main.lua",
+    modules: { "main.lua": code },
+    luaParseSettings: { ...DEFAULT_LUAPARSE_SETTINGS, luaVersion },
+  }).code;
+}
+
+void test("文字列の連結・論理演算・比較が畳み込まれる", () => {
+  assert.equal(
+    minifyMain('print("abc" .. "def", not true, 3 == 3.0, nil == false)'),
+    'print("abcdef",false,true,false)',
+  );
+  assert.equal(minifyMain('print(#"héllo", 1 and "x" or "y")'), 'print(6,"x")');
+});
+
+void test("整数と浮動小数点数を区別し、//と%は除数の符号に従う", () => {
+  assert.equal(
+    minifyMain("print(7 // 2, -7 // 2, 7 % -3, -7.5 % 2, 7.5 // 2, 10 - 20)"),
+    "print(3,-4,-2,.5,3.,-10)",
+  );
+  // 整数の演算は64bitで折り返す
+  assert.equal(
+    minifyMain("print(0x7fffffffffffffff + 0x7fffffffffffffff)"),
+    "print(-2)",
+  );
+  assert.equal(
+    minifyMain("print(0xff & ~0xf, 1 << 4, -1 >> 60)"),
+    "print(240,16,15)",
+  );
+});
+
+void test("..で数値はLua 5.3のtostringと同じ表現の文字列になる", () => {
+  assert.equal(
+    minifyMain('print(1 .. "x", 2.0 .. "", 0.1 .. "", 1e100 .. "")'),
+    'print("1x","2.0","0.1","1e+100")',
+  );
+  // 負の0・負の数の符号も残る
+  assert.equal(
+    minifyMain('print("a" .. -0.0, "b" .. -1.5, "c" .. -1e-5)'),
+    'print("a-0.0","b-1.5","c-1e-05")',
+  );
+});
+
+void test("置き換えても短くならない式はそのまま出力される", () => {
+  assert.equal(minifyMain("print(1/3, 2^10, 7/2)"), "print(1/3,2^10,7/2)");
+});
+
+void test("実行時エラーやソースに書けない値になる式は畳み込まない", () => {
+  assert.equal(
+    minifyMain("print(5 // 0, 5 % 0, 1 // 0.0, 1 << 63, 1 + {})"),
+    "print(5//0,5%0,1//0.,1<<63,1+{})",
+  );
+  // 文字列の数値への変換・大小比較は畳み込まない
+  assert.equal(
+    minifyMain('print("10" + 1, "a" < "b")'),
+    'print("10"+1,"a"<"b")',
+  );
+});
+
+void test("定数でない部分式を含む場合は、定数の部分式だけが畳み込まれる", () => {
+  assert.equal(
+    minifyMain("local x = ...\nprint(x * (60 * 60), (1 + 2) * x)"),
+    "local a=...print(a*3600,3*a)",
+  );
+});
+
+void test("負の値は演算子の優先順位に従って括弧で囲まれる", () => {
+  assert.equal(
+    minifyMain("local x = ...\nprint((1 - 10) ^ x)"),
+    "local a=...print((-9)^a)",
+  );
+});
+
+void test("5.3以外を対象とする場合は畳み込まない", () => {
+  assert.equal(minifyMain("print(60 * 60)", "5.1"), "print(60*60)");
+});
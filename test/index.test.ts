@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { SourceMapConsumer } from "source-map";
+import { minify } from "../src/index";
+import { fixtureEntryPath } from "./lib/helpers";
+
+// ライブラリのエントリポイント（minify）が、ディスク上のファイルを使わずに
+// メモリ上のソースだけでminifyできることを検証する。
+
+void test("minify: modulesに渡したメモリ上のソースだけでrequireを解決できる", async () => {
+  const { code, map } = minify({
+    entry: "main.lua",
+    modules: {
+      "main.lua": 'local util = require("lib.util")\nprint(util.twice(21))\n',
+      "lib/util.lua":
+        "local function twice(value)\n  return value * 2\nend\nreturn { twice = twice }\n",
+    },
+  });
+
+  assert.equal(
+    code,
+    "local function a(b)return b*2 end local c={twice=a}print(c.twice(21))",
+  );
+  assert.equal(map.file, "main.min.lua");
+  assert.deepEqual([...map.sources].sort(), ["lib/util.lua", "main.lua"]);
+
+  await SourceMapConsumer.with(map, null, (consumer) => {
+    assert.equal(
+      consumer.sourceContentFor("lib/util.lua"),
+      "local function twice(value)\n  return value * 2\nend\nreturn { twice = twice }\n",
+    );
+  });
+});
+
+void test("minify: modulesはMapでも渡せ、キーの'./'の有無は区別しない", () => {
+  const { code } = minify({
+    entry: "./main.lua",
+    modules: new Map([
+      ["./main.lua", 'dofile("greet")'],
+      ["greet.lua", 'print("hi")'],
+    ]),
+  });
+  assert.equal(code, 'print("hi")');
+});
+
+void test("minify: modulesに無いモジュールはloaderから読み込む", () => {
+  const requested: string[] = [];
+  const { code } = minify({
+    entry: "main.lua",
+    modules: { "main.lua": 'dofile("greet")' },
+    loader: (filePath) => {
+      requested.push(filePath);
+      return filePath === "greet.lua" ? "print(1)" : undefined;
+    },
+  });
+  assert.equal(code, "print(1)");
+  // 各モジュールと同じ場所の入力のSource Map（.lua.map）もloaderで探す
+  assert.deepEqual(requested, ["main.lua.map", "greet.lua", "greet.lua.map"]);
+});
+
+void test("minify: 見つからないモジュールはエラーになる", () => {
+  assert.throws(
+    () =>
+      minify({
+        entry: "main.lua",
+        modules: { "main.lua": 'require("missing")' },
+      }),
+    /missing is not found/,
+  );
+});
+
+void test("minify: mapFileNameを指定するとsourceMappingURLアノテーションを付加する", () => {
+  const { code, map } = minify({
+    entry: "main.lua",
+    modules: { "main.lua": "print(1)" },
+    mapFileName: "main.lua.map",
+    sourceMappingUrlStyle: "line",
+  });
+  assert.equal(code, "print(1)\n-- //# sourceMappingURL=main.lua.map\n");
+  assert.equal(map.file, "main.min.lua");
+});
+
+void test("minify: modulesもloaderも指定しない場合は実ファイルを読む", () => {
+  const entry = fixtureEntryPath("require-call");
+  const { map } = minify({ entry, moduleLikeLua: true });
+  assert.equal(
+    map.sourcesContent?.[map.sources.indexOf("mod.lua")],
+    fs.readFileSync(fixtureEntryPath("require-call", "mod.lua"), "utf8"),
+  );
+});
@@ -1,17 +1,16 @@
+import fs from "fs";
 import path from "path";
-import { Options } from "luaparse";
 import { RawSourceMap } from "source-map";
-import { Minifier, MinifierMode } from "../../src/minifier";
+import {
+  DEFAULT_LUAPARSE_SETTINGS,
+  Minifier,
+  MinifierMode,
+} from "../../src/minifier";
 
 export const FIXTURES_DIR = path.join(__dirname, "..", "fixtures");
 export const SNAPSHOTS_DIR = path.join(__dirname, "..", "snapshots");
 
-export const LUAPARSE_SETTINGS: Partial<Options> = {
-  locations: true,
-  luaVersion: "5.3",
-  ranges: true,
-  scope: true,
-};
+export const LUAPARSE_SETTINGS = DEFAULT_LUAPARSE_SETTINGS;
 
 export interface FixtureCase {
   label: string;
@@ -122,3 +121,12 @@ export const WORKING_CASES: FixtureCase[] = [
 // 既知バグの再現ケース。現状は failing のため `test.todo` で登録する。
 // 修正が入ったら .todo を外して WORKING_CASES に合流させること。
 export const KNOWN_BUG_CASES: KnownBugCase[] = [];
+
+// 典型的なスクリプト（fixtures/benchmark）をdo ... endで包んで`copies`回繰り返した入力。
+// printerの処理量が出力の長さに比例することの検証・計測に使う。
+export function benchmarkBundle(copies: number): string {
+  const body = fs.readFileSync(fixtureEntryPath("benchmark"), "utf8");
+  return Array.from({ length: copies }, () => "do\n" + body + "\nend\n").join(
+    "",
+  );
+}
@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { minify } from "../src/index";
+
+// 連続するローカル宣言の結合と、`=nil`の初期化式の省略を検証する。
+
+function minifyMain(code: string): string {
+  return minify({ entry: "main.lua", modules: { "main.lua": code } }).code;
+}
+
+void test("連続するlocal文は1つのlocal文に結合される", () => {
+  assert.equal(
+    minifyMain("local a = 1\nlocal b = 2\nlocal c = {}\nprint(a, b, c)\n"),
+    "local a,b,c=1,2,{}print(a,b,c)",
+  );
+  // 初期化式の無い変数はnilで埋め、末尾のnilは省く
+  assert.equal(
+    minifyMain(
+      "local a, b = 1\nlocal c = f()\nlocal d = nil\nprint(a, b, c, d)\n",
+    ),
+    "local a,b,c,d=1,nil,f(),nil\nprint(a,b,c,d)",
+  );
+  assert.equal(minifyMain("local x = nil\nprint(x)\n"), "local a\nprint(a)");
+});
+
+void test("先行する文のローカルを参照する初期化式・複数の値で埋める文の後では結合しない", () => {
+  assert.equal(
+    minifyMain("local a = 1\nlocal b = function() return a end\nprint(b)\n"),
+    "local a=1\nlocal b=function()return a end\nprint(b)",
+  );
+  assert.equal(
+    minifyMain("local a, b = f()\nlocal c = 1\nprint(a, b, c)\n"),
+    "local a,b=f()local c=1\nprint(a,b,c)",
+  );
+  // 最後の文の変数は、直前の式の2つ目以降の値で埋まらないようnilを残す
+  assert.equal(
+    minifyMain("local a = f()\nlocal b\nprint(a, b)\n"),
+    "local a,b=f(),nil\nprint(a,b)",
+  );
+});
@@ -0,0 +1,150 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { minify } from "../src/index";
+import { DEFAULT_LUAPARSE_SETTINGS } from "../src/minifier";
+import { LUA_VERSIONS } from "../src/luaversion";
+import {
+  bytesToUtf8,
+  decodeLuaString,
+  encodeLuaString,
+  utf8ToBytes,
+} from "../src/luastring";
+
+// 文字列リテラルの解釈（エスケープ・長括弧）と、最短の表記への再符号化を検証する。
+
+void test("decodeLuaString: エスケープシーケンスを解釈する", () => {
+  assert.equal(decodeLuaString(String.raw`"a\tb\\c\"d"`, "5.3"), 'a\tb\\c"d');
+  assert.equal(decodeLuaString(String.raw`'\x41\66\0677'`, "5.3"), "ABC7");
+  assert.equal(decodeLuaString('"a\\z  \n   b"', "5.3"), "ab");
+  assert.equal(decodeLuaString('"a\\\r\nb"', "5.3"), "a\nb");
+  // \u{XXX}とソース上の非ASCII文字はUTF-8のバイト列になる
+  assert.equal(
+    decodeLuaString(String.raw`"\u{E9}é"`, "5.3"),
+    utf8ToBytes("éé"),
+  );
+  assert.throws(
+    () => decodeLuaString(String.raw`"\256"`, "5.3"),
+    /Invalid escape/,
+  );
+  assert.throws(
+    () => decodeLuaString(String.raw`"\q"`, "5.3"),
+    /Invalid escape/,
+  );
+});
+
+void test("decodeLuaString: 対象のバージョンに無いエスケープは解釈しない", () => {
+  // 5.1ではバックスラッシュに続く未知の文字はその文字自体になる
+  assert.equal(
+    decodeLuaString(String.raw`"\x41\z\u{41}\q"`, "5.1"),
+    "x41zu{41}q",
+  );
+  assert.equal(
+    decodeLuaString(String.raw`"\66é\é"`, "5.1"),
+    utf8ToBytes("Béé"),
+  );
+  assert.throws(
+    () => decodeLuaString(String.raw`"\256"`, "5.1"),
+    /Invalid escape/,
+  );
+  // 5.2には\u{XXX}が無い
+  assert.equal(decodeLuaString(String.raw`"\x41\z  b"`, "5.2"), "Ab");
+  assert.throws(
+    () => decodeLuaString(String.raw`"\u{41}"`, "5.2"),
+    /Invalid escape/,
+  );
+  assert.equal(decodeLuaString(String.raw`"\u{41}"`, "LuaJIT"), "A");
+});
+
+void test("decodeLuaString: 長括弧の文字列は開き括弧直後の改行を読み飛ばす", () => {
+  assert.equal(decodeLuaString("[[\nline]]", "5.3"), "line");
+  assert.equal(decodeLuaString("[==[a]]\r\nb]==]", "5.3"), "a]]\nb");
+});
+
+void test("encodeLuaString: 最も短い引用符・長括弧を選ぶ", () => {
+  assert.equal(encodeLuaString("plain", "5.3"), '"plain"');
+  assert.equal(encodeLuaString("it's", "5.3"), `"it's"`);
+  assert.equal(encodeLuaString('say "hi"', "5.3"), `'say "hi"'`);
+  assert.equal(encodeLuaString("a\nb\nc\nd", "5.3"), "[[a\nb\nc\nd]]");
+  assert.equal(
+    encodeLuaString("\na\nb\nc\nd\ne", "5.3"),
+    "[[\n\na\nb\nc\nd\ne]]",
+  );
+  assert.equal(encodeLuaString("]]\n\n\n\n\n", "5.3"), "[=[]]\n\n\n\n\n]=]");
+
+  // 5.1は水準0の長括弧の中の`[[`を読めないため水準を上げる
+  const nested = 'a[[b\n\n\n\n\n\n""""';
+  assert.equal(encodeLuaString(nested, "5.3"), "[[" + nested + "]]");
+  assert.equal(encodeLuaString(nested, "5.1"), "[=[" + nested + "]=]");
+});
+
+void test("encodeLuaString: 書けないバイトは最短のエスケープにする", () => {
+  assert.equal(encodeLuaString("\x00a\x001", "5.3"), '"\\0a\\0001"');
+  assert.equal(encodeLuaString("\x07\x7f\r", "5.3"), '"\\a\\127\\r"');
+  // 正しいUTF-8の並びはそのまま書き、不正なバイトはエスケープする
+  assert.equal(encodeLuaString(utf8ToBytes("é"), "5.3"), '"é"');
+  assert.equal(encodeLuaString("\xe9", "5.3"), '"\\233"');
+});
+
+void test("再符号化した表記は元と同じ値に戻る", () => {
+  [
+    "",
+    "\x00\x01\x7f\x80\xff",
+    utf8ToBytes("日本語\n\t\"'\\"),
+    "]=]]==]\n",
+  ].forEach((bytes) => {
+    // 出力する表記は全バージョン共通のエスケープだけを使う
+    LUA_VERSIONS.forEach((luaVersion) => {
+      assert.equal(
+        decodeLuaString(encodeLuaString(bytes, luaVersion), luaVersion),
+        bytes,
+      );
+      assert.equal(
+        decodeLuaString(encodeLuaString(bytes, luaVersion, "'"), luaVersion),
+        bytes,
+      );
+    });
+  });
+  assert.equal(bytesToUtf8(utf8ToBytes("日本語")), "日本語");
+});
+
+void test("minify: 文字列リテラルが最短の表記で出力される", () => {
+  const { code } = minify({
+    entry: "main.lua",
+    modules: {
+      "main.lua": String.raw`print('it\'s', "\x41\66", [==[x]]]==], "\z
+        skip", 'plain')`,
+    },
+  });
+  assert.equal(code, `print("it's","AB","x]]","skip",'plain')`);
+});
+
+void test("minify: 5.1では5.2以降のエスケープを値として解釈しない", () => {
+  const { code } = minify({
+    entry: "main.lua",
+    modules: { "main.lua": String.raw`print("\x41", "\z", "\66")` },
+    luaParseSettings: { ...DEFAULT_LUAPARSE_SETTINGS, luaVersion: "5.1" },
+  });
+  assert.equal(code, `print("x41","z","B")`);
+});
+
+void test("minify: 5.1では`[[`を含む文字列を水準0の長括弧にしない", () => {
+  const { code } = minify({
+    entry: "main.lua",
+    modules: { "main.lua": String.raw`print("a[[b\n\n\n\n\n\n\"\"\"\"")` },
+    luaParseSettings: { ...DEFAULT_LUAPARSE_SETTINGS, luaVersion: "5.1" },
+  });
+  assert.equal(code, 'print([=[a[[b\n\n\n\n\n\n""""]=])');
+});
+
+void test("minify: エスケープを含むモジュール名も同じ解釈で解決される", () => {
+  const { code } = minify({
+    entry: "main.lua",
+    modules: {
+      "main.lua": String.raw`print(require "lib\x2eutil", require [[lib.util]])`,
+      "lib/util.lua": "return 1",
+    },
+    moduleLikeLua: true,
+  });
+  assert.match(code, /require"lib\.util"/);
+  assert.doesNotMatch(code, /\\x2e/);
+});
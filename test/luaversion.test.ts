@@ -0,0 +1,70 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { minify, DEFAULT_LUAPARSE_SETTINGS } from "../src/index";
+import { LuaVersion } from "../src/luaversion";
+
+// 対象Luaバージョン（--lua-version）がパースと出力の両方に反映され、
+// 対象バージョンに無い構文が位置付きのエラーになることを検証する。
+
+function minifyAs(luaVersion: LuaVersion, modules: Record<string, string>) {
+  return minify({
+    entry: "main.lua",
+    modules,
+    luaParseSettings: { ...DEFAULT_LUAPARSE_SETTINGS, luaVersion },
+  });
+}
+
+void test("5.1では整数除算`//`がファイル名と位置付きのエラーになる", () => {
+  assert.throws(
+    () =>
+      minifyAs("5.1", {
+        "main.lua": 'dofile("lib")',
+        "lib.lua": "local x = 1\nprint(x // 2)\n",
+      }),
+    {
+      name: "SyntaxError",
+      message:
+        "lib.lua: [2:6] '//' (floor division) is not supported in Lua 5.1",
+    },
+  );
+});
+
+void test("5.2・LuaJITではビット演算子がエラーになる", () => {
+  for (const version of ["5.2", "LuaJIT"] as const) {
+    assert.throws(() => minifyAs(version, { "main.lua": "print(1 & 2)" }), {
+      message: `main.lua: [1:6] '&' (bitwise and) is not supported in Lua ${version}`,
+    });
+  }
+  assert.throws(() => minifyAs("5.2", { "main.lua": "print(~1)" }), {
+    message: "main.lua: [1:6] '~' (bitwise not) is not supported in Lua 5.2",
+  });
+});
+
+void test("5.1ではgotoがエラーになり、5.2・LuaJITでは受け付ける", () => {
+  const source = "for i = 1, 3 do\n  goto continue\n  ::continue::\nend\n";
+  assert.throws(() => minifyAs("5.1", { "main.lua": source }), {
+    message: "main.lua: [2:2] 'goto' is not supported in Lua 5.1",
+  });
+  assert.equal(
+    minifyAs("5.2", { "main.lua": source }).code,
+    "for b=1,3 do goto a::a::end",
+  );
+  assert.equal(
+    minifyAs("LuaJIT", { "main.lua": source }).code,
+    "for b=1,3 do goto a::a::end",
+  );
+});
+
+void test("対象バージョンと無関係な構文エラーはluaparseのメッセージにファイル名を前置する", () => {
+  assert.throws(() => minifyAs("5.1", { "main.lua": "local = 1" }), {
+    name: "SyntaxError",
+    message: "main.lua: [1:6] <name> expected near '='",
+  });
+});
+
+void test("5.3ではビット演算子・整数除算をそのまま出力する", () => {
+  assert.equal(
+    minifyAs("5.3", { "main.lua": "print(x & 2, x // 2, ~x)" }).code,
+    "print(x&2,x//2,~x)",
+  );
+});
@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { minify, NameCache } from "../src/index";
+
+// 短縮名のキャッシュ（--name-cache）: 前回のビルドの名前が優先され、新しいシンボルには
+// 衝突しない名前が割り当てられることを検証する。
+
+const FIRST =
+  "local speed = 1\nlocal count = 2\nlocal name = 3\nprint(speed, speed, count, name, name, name)\n";
+// 参照回数の順位が変わり、ローカルが1つ増えた版
+const SECOND =
+  "local speed = 1\nlocal count = 2\nlocal name = 3\nlocal extra = 4\nprint(speed, speed, speed, speed, count, count, count, count, count, name, name, name, extra, extra)\n";
+
+function minifyMain(code: string, nameCache?: NameCache): string {
+  return minify({ entry: "main.lua", modules: { "main.lua": code }, nameCache })
+    .code;
+}
+
+void test("参照回数が変わっても、前回のビルドと同じ名前が割り当てられる", () => {
+  const cache = new NameCache();
+  assert.equal(
+    minifyMain(FIRST, cache),
+    "local b,c,a=1,2,3\nprint(b,b,c,a,a,a)",
+  );
+  // キャッシュが無ければ参照回数の順に名前が入れ替わる
+  assert.equal(
+    minifyMain(SECOND),
+    "local b,a,c,d=1,2,3,4\nprint(b,b,b,b,a,a,a,a,a,c,c,c,d,d)",
+  );
+  // 新しいシンボルには、キャッシュの名前と衝突しない名前が割り当てられる
+  assert.equal(
+    minifyMain(SECOND, cache),
+    "local b,c,a,d=1,2,3,4\nprint(b,b,b,b,c,c,c,c,c,a,a,a,d,d)",
+  );
+});
+
+void test("キャッシュはキーの順に並んだJSONとして保存・読み込みできる", () => {
+  const cache = new NameCache();
+  minifyMain(FIRST, cache);
+  const text = cache.stringify();
+  assert.deepEqual(JSON.parse(text), {
+    version: 1,
+    modules: { "main.lua": { ":count": "c", ":name": "a", ":speed": "b" } },
+  });
+  assert.equal(NameCache.parse(text).stringify(), text);
+});
+
+void test("形式が正しくないキャッシュは読み込めない", () => {
+  assert.throws(() => NameCache.parse('{"version": 2, "modules": {}}'), {
+    message: /the name cache must be/,
+  });
+  assert.throws(
+    () =>
+      NameCache.parse('{"version": 1, "modules": {"main.lua": {":x": "1a"}}}'),
+    { message: 'invalid names for module "main.lua"' },
+  );
+});
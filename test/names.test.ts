@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { lookupOutputName, minify } from "../src/index";
+
+// 短縮名の対応表（.names.json）: モジュール・スコープごとのシンボルと短縮名が
+// 書き出され、出力の位置と短縮名から元の変数を引けることを検証する。
+
+const modules = {
+  "main.lua":
+    'local lib = require("lib")\nlocal function tick(speed)\n  local target = lib.find(speed)\n  return target.value\nend\nprint(tick(1), tick(2))\n',
+  "lib.lua":
+    "local M = {}\nfunction M.find(range)\n  local hit = nil\n  return hit\nend\nreturn M\n",
+};
+
+void test("モジュール・スコープごとに元の名前・種類・宣言位置・短縮名を書き出す", () => {
+  const { names } = minify({ entry: "main.lua", modules });
+  assert.equal(names.file, "main.min.lua");
+  assert.deepEqual(Object.keys(names.modules), ["lib.lua", "main.lua"]);
+  const fn = names.modules["main.lua"].children[0];
+  assert.equal(fn.kind, "function");
+  assert.deepEqual(fn.start, { line: 2, column: 0 });
+  assert.deepEqual(fn.end, { line: 5, column: 3 });
+  assert.deepEqual(fn.symbols, [
+    { name: "speed", kind: "param", line: 2, column: 20, shortName: "f" },
+    { name: "target", kind: "local", line: 3, column: 8, shortName: "g" },
+  ]);
+});
+
+void test("出力の位置と短縮名から元の変数を引ける", async () => {
+  const { code, map, names } = minify({ entry: "main.lua", modules });
+  const lines = code.split("\n");
+  const at = async (line: number, text: string, shortName: string) =>
+    lookupOutputName(
+      names,
+      map,
+      { line, column: lines[line - 1].indexOf(text) },
+      shortName,
+    );
+
+  assert.deepEqual(await at(2, "return b", "b"), {
+    source: "lib.lua",
+    symbol: { name: "hit", kind: "local", line: 3, column: 8, shortName: "b" },
+  });
+  assert.equal((await at(3, "return g.value", "g"))?.symbol.name, "target");
+  // 位置のスコープで見えない短縮名は引けない
+  assert.equal(await at(4, "print", "g"), undefined);
+});
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { minify } from "../src/index";
+import { DEFAULT_LUAPARSE_SETTINGS } from "../src/minifier";
+
+// 数値リテラルが、値と整数・浮動小数点数の区別を保ったまま最短の表記で
+// 出力されることを検証する。
+
+function minifyMain(code: string, luaVersion: "5.1" | "5.3" = "5.3"): string {
+  return minify({
+    entry: "main.lua",
+    modules: { "main.lua": code },
+    luaParseSettings: { ...DEFAULT_LUAPARSE_SETTINGS, luaVersion },
+  }).code;
+}
+
+void test("浮動小数点数は最短の10進・16進表記になる", () => {
+  assert.equal(
+    minifyMain(
+      "print(0.50, 3.0, 1000000.0, 123.456, 0.0, 0.0009765625, 1e309)",
+    ),
+    "print(.5,3.,1e6,123.456,0.,0x1p-10,1e309)",
+  );
+});
+
+void test("整数は浮動小数点数の表記にならない", () => {
+  assert.equal(
+    minifyMain("print(1000000, 0x10, 0x7fffffffffffffff, 0xffffffffffffffff)"),
+    "print(1000000,16,0x7fffffffffffffff,0xffffffffffffffff)",
+  );
+});
+
+void test("5.3以外では整数にも指数表記を使う", () => {
+  assert.equal(
+    minifyMain("print(1000000, 0.50, 3.0, 0x10)", "5.1"),
+    "print(1e6,.5,3,0x10)",
+  );
+});
+
+void test("最短表記の前後でも正しく字句分割される", () => {
+  assert.equal(
+    minifyMain(
+      "local x = ...\nprint(3.0 .. x, x .. 0.5, 0xff .. x, 1000000.0 .. x)\nreturn 0.5",
+    ),
+    "local a=...print(3. ..a,a.. .5,255 ..a,1e6 ..a)return.5",
+  );
+  assert.equal(
+    minifyMain("local x = ...\nprint(0x7fffffffffffffff .. x)"),
+    "local a=...print(0x7fffffffffffffff ..a)",
+  );
+});
@@ -0,0 +1,110 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import luaparse from "luaparse";
+import { SourceMapConsumer } from "source-map";
+import { minify } from "../src/index";
+
+// --pretty（字下げ・1行に1文・演算子の前後の空白）の出力を検証する。
+
+const MAIN = [
+  'local util = require("util")',
+  "function onTick()",
+  "  local x = input.getNumber(1)",
+  "  if x > 0 and not util.ready then",
+  '    print(x * 2 .. "m", #util, -x)',
+  "  else",
+  "    for i = 1, 3 do util.step(i) end",
+  "  end",
+  "end",
+  "",
+].join("\n");
+const UTIL = [
+  "local M = {ready = false}",
+  "function M.step(n)",
+  "  M.ready = n >= 3",
+  "end",
+  "return M",
+  "",
+].join("\n");
+
+function minifyPretty(rename: boolean) {
+  return minify({
+    entry: "main.lua",
+    modules: { "main.lua": MAIN, "util.lua": UTIL },
+    pretty: true,
+    rename,
+  });
+}
+
+void test("ブロックごとに字下げし、1行に1文・演算子の前後に空白を入れる", () => {
+  assert.equal(
+    minifyPretty(false).code,
+    [
+      "local M = {ready = false}",
+      "function M.step(n)",
+      "  M.ready = n >= 3",
+      "end",
+      "local util = M",
+      "function onTick()",
+      "  local x = input.getNumber(1)",
+      "  if x > 0 and not util.ready then",
+      '    print(x * 2 .. "m", #util, -x)',
+      "  else",
+      "    for i = 1, 3 do",
+      "      util.step(i)",
+      "    end",
+      "  end",
+      "end",
+    ].join("\n"),
+  );
+});
+
+void test("リネームと組み合わせても有効なLuaとして出力する", () => {
+  const { code } = minifyPretty(true);
+  assert.doesNotThrow(() => luaparse.parse(code, { luaVersion: "5.3" }));
+  assert.match(code, /^function onTick\(\)\n {2}local [a-z] = /m);
+});
+
+void test("requireを式として展開する場合は関数の本体を字下げする", () => {
+  const { code } = minify({
+    entry: "main.lua",
+    modules: {
+      "main.lua": 'print(require("util").ready)\n',
+      "util.lua": "do print(1) end\nreturn {ready = true}\n",
+    },
+    pretty: true,
+    rename: false,
+  });
+  assert.equal(
+    code,
+    [
+      "print(((function()",
+      "  do",
+      "    print(1)",
+      "  end",
+      "  return {ready = true}",
+      "end)()).ready)",
+    ].join("\n"),
+  );
+});
+
+void test("Source Mapは字下げした出力の位置から元の位置を指す", async () => {
+  const { code, map } = minifyPretty(false);
+  const lines = code.split("\n");
+  const locate = (needle: string) => {
+    const line = lines.findIndex((text) => text.includes(needle));
+    return { line: line + 1, column: lines[line].indexOf(needle) };
+  };
+  await SourceMapConsumer.with(map, null, (consumer) => {
+    assert.deepEqual(consumer.originalPositionFor(locate("util.step(i)")), {
+      source: "main.lua",
+      line: 7,
+      column: 20,
+      name: "util",
+    });
+    const assignment = consumer.originalPositionFor(locate("M.ready = n"));
+    assert.equal(assignment.source, "util.lua");
+    assert.equal(assignment.line, 3);
+    assert.equal(assignment.column, 2);
+  });
+});
@@ -3,6 +3,7 @@ import assert from "node:assert/strict";
 import Parser from "luaparse";
 import { resolveScopes } from "../src/resolver";
 import { assignRenames } from "../src/renamer";
+import { minify } from "../src/index";
 
 // Renameパス（#20）の単体テスト。スコープに基づくスロット再利用、頻度順の名前割当、
 // 予約名との非衝突を検証する。
@@ -128,3 +129,63 @@ void test("usedNames reflects exactly the short names handed out", () => {
   assert.ok(yName);
   assert.deepEqual(result.usedNames, new Set([xName, yName]));
 });
+
+void test("modules only expanded inside a function reuse short names of other modules", () => {
+  const modules = {
+    "main.lua":
+      'dofile("shared")\nlocal total = count + 1\nprint(total, total, tostring(require("wrapped")))\n',
+    "shared.lua": "local step = 2\ncount = step * step\n",
+    "wrapped.lua":
+      "local value = 10\nlocal other = 20\nreturn value + other + value\n",
+  };
+  // dofileで展開されるsharedの名前(a)は予約され、IIFEに包まれるwrappedは
+  // エントリと同じ名前(b)を使える
+  assert.equal(
+    minify({ entry: "main.lua", modules }).code,
+    "local a=2\ncount=a*a\nlocal b=count+1\nprint(b,b,tostring((function() local b,c=10,20\nreturn b+c+b end)()))",
+  );
+});
+
+void test("kept symbols retain their original names, which no other symbol receives", () => {
+  const chunk = parse(`
+    local function update(x)
+      return x
+    end
+    local a = update(1)
+    print(a, a)
+  `);
+  const resolved = resolveScopes(chunk);
+  const result = assignRenames(
+    resolved,
+    new Set(),
+    new Set(),
+    undefined,
+    (symbol) => symbol.name === "update" || symbol.name === "a",
+  );
+  const update = (chunk.body[0] as Parser.FunctionDeclaration)
+    .identifier as Parser.Identifier;
+  const x = (chunk.body[0] as Parser.FunctionDeclaration).parameters[0];
+  assert.equal(result.nameOf(update), "update");
+  assert.equal(
+    result.nameOf((chunk.body[1] as Parser.LocalStatement).variables[0]),
+    "a",
+  );
+  assert.equal(result.nameOf(x), "b");
+  assert.deepEqual([...result.usedNames].sort(), ["a", "b", "update"]);
+});
+
+void test("reserve and per-module keepNames apply when minifying", () => {
+  const modules = {
+    "main.lua": 'local helper = 1\ndofile("lib")\nprint(helper)\n',
+    "lib.lua": "local helper = 2\nprint(helper)\n",
+  };
+  assert.equal(
+    minify({
+      entry: "main.lua",
+      modules,
+      reserve: ["a"],
+      keepNames: { "lib.lua": "^helper$" },
+    }).code,
+    "local b=1\nlocal helper=2\nprint(helper)print(b)",
+  );
+});
@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { minify } from "../src/index";
+import { parseSearchPath } from "../src/minifier";
+
+// require/dofileのモジュール解決に使う探索パスのテンプレート（package.path形式）を検証する。
+
+void test("parseSearchPath: package.path形式の文字列をテンプレートの一覧にする", () => {
+  assert.deepEqual(parseSearchPath("?.lua;?/init.lua;;../shared/?.lua"), [
+    "?.lua",
+    "?/init.lua",
+    "../shared/?.lua",
+  ]);
+});
+
+void test("探索パスの先頭から順に探し、最初に見つかったファイルを使う", () => {
+  const { code, map } = minify({
+    entry: "vehicle/main.lua",
+    modules: {
+      "vehicle/main.lua": 'dofile("util.math")',
+      "vehicle/util/math/init.lua": "print(1)",
+      "shared/util/math.lua": "print(2)",
+    },
+    searchPath: ["?.lua", "?/init.lua", "../shared/?.lua"],
+  });
+  assert.equal(code, "print(1)");
+  assert.deepEqual(map.sources, ["util/math/init.lua"]);
+});
+
+void test("エントリのディレクトリの外にあるモジュールのsourcesは相対パスになる", () => {
+  const { code, map } = minify({
+    entry: "vehicle/main.lua",
+    modules: {
+      "vehicle/main.lua": 'dofile("util.math")',
+      "shared/util/math.lua": "print(2)",
+    },
+    searchPath: ["?.lua", "../shared/?.lua"],
+  });
+  assert.equal(code, "print(2)");
+  assert.deepEqual(map.sources, ["../shared/util/math.lua"]);
+});
+
+void test("絶対パスのテンプレートはエントリのディレクトリによらずそのパスを探す", () => {
+  const shared = path.resolve("/usr/share/lua/util/math.lua");
+  const probed: string[] = [];
+  const { code, map } = minify({
+    entry: "vehicle/main.lua",
+    modules: { "vehicle/main.lua": 'dofile("util.math")' },
+    loader: (filePath) => {
+      if (filePath.endsWith(".lua")) {
+        probed.push(filePath);
+      }
+      return filePath === shared ? "print(4)" : undefined;
+    },
+    searchPath: ["?.lua", path.resolve("/usr/share/lua") + "/?.lua"],
+  });
+  assert.equal(code, "print(4)");
+  assert.deepEqual(probed, [path.join("vehicle", "util/math.lua"), shared]);
+  assert.equal(map.sources.length, 1);
+});
+
+void test("探索パスを省略した場合は従来通り<エントリのディレクトリ>/a/b.luaを探す", () => {
+  const { code } = minify({
+    entry: "main.lua",
+    modules: {
+      "main.lua": 'dofile("a.b")',
+      "a/b.lua": "print(3)",
+    },
+  });
+  assert.equal(code, "print(3)");
+});
+
+void test("見つからない場合は探索したすべてのパスをエラーに挙げる", () => {
+  assert.throws(
+    () =>
+      minify({
+        entry: "main.lua",
+        modules: { "main.lua": 'require("lib.missing")' },
+        searchPath: ["?.lua", "?/init.lua", "vendor/?.lua"],
+      }),
+    {
+      message: [
+        "lib.missing is not found",
+        "\tno file 'lib/missing.lua'",
+        "\tno file 'lib/missing/init.lua'",
+        "\tno file 'vendor/lib/missing.lua'",
+      ].join("\n"),
+    },
+  );
+});
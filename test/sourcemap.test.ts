@@ -1,7 +1,8 @@
 import { test } from "node:test";
 import assert from "node:assert/strict";
 import fs from "fs";
-import { SourceMapConsumer } from "source-map";
+import { SourceMapConsumer, SourceMapGenerator } from "source-map";
+import { minify } from "../src/index";
 import { fixtureEntryPath, runMinifier } from "./lib/helpers";
 
 // 生成コード中の`needle`が何回目に出現する行・列(source-map準拠: 行は1始まり、
@@ -103,3 +104,55 @@ void test("sourcemap: ドット区切りモジュール名のsourcesはOSに依
     `sources に "sub/deep.lua" が含まれていること。実際: ${JSON.stringify(map.sources)}`,
   );
 });
+
+void test("sourcemap: モジュールの入力のSource Mapを引き継ぎ、元のソースの位置・名前・内容を指す", async () => {
+  // TypeScriptToLuaなどが生成したモジュール（gen.lua）とその.map
+  const generator = new SourceMapGenerator({ file: "gen.lua" });
+  generator.addMapping({
+    generated: { line: 1, column: 15 },
+    original: { line: 1, column: 9 },
+    source: "src/gen.ts",
+    name: "greet",
+  });
+  generator.addMapping({
+    generated: { line: 4, column: 0 },
+    original: { line: 5, column: 0 },
+    source: "src/gen.ts",
+  });
+  generator.setSourceContent("src/gen.ts", "function greet() {}\n");
+  const { code, map } = minify({
+    entry: "main.lua",
+    modules: {
+      "main.lua": 'require("gen")\nprint(1)\n',
+      "gen.lua":
+        'local function greet(name)\n  return "hi " .. name\nend\nprint(greet("x"))\n--# sourceMappingURL=gen.lua.map\n',
+      "gen.lua.map": generator.toString(),
+    },
+  });
+  // sourceMappingURLのコメントは出力に残さない
+  assert.equal(
+    code,
+    'local function a(b)return"hi "..b end\nprint(a("x"))print(1)',
+  );
+
+  await SourceMapConsumer.with(map, null, (consumer) => {
+    const declaration = consumer.originalPositionFor(
+      locateInGenerated(code, "a("),
+    );
+    assert.equal(declaration.source, "src/gen.ts");
+    assert.equal(declaration.line, 1);
+    assert.equal(declaration.column, 9);
+    assert.equal(declaration.name, "greet");
+    const call = consumer.originalPositionFor(locateInGenerated(code, "print"));
+    assert.equal(call.source, "src/gen.ts");
+    assert.equal(call.line, 5);
+    // マッピングの無い位置はモジュール自身の位置のまま
+    const body = consumer.originalPositionFor(locateInGenerated(code, '"hi "'));
+    assert.equal(body.source, "gen.lua");
+    assert.equal(body.line, 2);
+    assert.equal(
+      consumer.sourceContentFor("src/gen.ts"),
+      "function greet() {}\n",
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { minify } from "../src/index";
+
+// 文字列リテラルのプール化: 繰り返し現れる文字列がチャンク先頭のローカルに
+// 置き換わり、require/dofileの引数やローカルの上限を超える場合は置き換わらない
+// ことを検証する。
+
+const modules = {
+  "main.lua":
+    'local lib = require("lib")\nfunction onTick()\n  local a = property.getNumber("Max Speed")\n  local b = property.getNumber"Max Speed"\n  print(("Max Speed"):upper(), a, b, "x", "x", "x")\n  lib.f()\nend\n',
+  "lib.lua":
+    'local m = {}\nfunction m.f()\n  print(\'Max Speed\', require("util"), require("util"), require("util"))\nend\nreturn m\n',
+  "util.lua": "return 1",
+};
+
+void test("SLモードではモジュールをまたいで同じ値の文字列がエントリ先頭のローカルになる", () => {
+  assert.equal(
+    minify({ entry: "main.lua", modules }).code,
+    'local a="Max Speed"local b={}function b.f()print(a,(function() return 1 end)(),(function() return 1 end)(),(function() return 1 end)())end local c=b\nfunction onTick()local d,e=property.getNumber(a),property.getNumber(a)print(a:upper(),d,e,"x","x","x")c.f()end',
+  );
+});
+
+void test("-mモードではモジュールごとにプール化する", () => {
+  const { code } = minify({ entry: "main.lua", modules, moduleLikeLua: true });
+  assert.match(code, /print\('Max Speed',require\("util"\)/);
+  assert.match(
+    code,
+    /\nlocal a="Max Speed"local b=require\("lib"\)function onTick\(\)local c,d=property\.getNumber\(a\)/,
+  );
+});
+
+void test("ローカルの上限を超える場合はプール化しない", () => {
+  const locals = Array.from(
+    { length: 200 },
+    (_, i) => "local v" + String(i) + " = f()\n",
+  ).join("");
+  const uses = Array.from({ length: 200 }, (_, i) => "v" + String(i)).join(
+    ", ",
+  );
+  const { code } = minify({
+    entry: "main.lua",
+    modules: {
+      "main.lua":
+        locals +
+        "print(" +
+        uses +
+        ')\nprint("Max Speed", "Max Speed", "Max Speed", "Max Speed")\n',
+    },
+  });
+  assert.match(
+    code,
+    /print\("Max Speed","Max Speed","Max Speed","Max Speed"\)/,
+  );
+});
+
+void test("畳み込んだ式の中のリテラルは数えず、畳み込んだ結果の文字列を数える", () => {
+  const minifyMain = (code: string) =>
+    minify({ entry: "main.lua", modules: { "main.lua": code } }).code;
+  // `#'...'`は数値に畳み込まれるため、文字列は出力に残らない
+  assert.equal(
+    minifyMain("print(#'abcdefgh', #'abcdefgh', #'abcdefgh')\n"),
+    "print(8,8,8)",
+  );
+  assert.equal(
+    minifyMain(
+      "print('abcdefgh' .. 'ijk', 'abcdefgh' .. 'ijk', 'abcdefgh' .. 'ijk')\n",
+    ),
+    'local a="abcdefghijk"print(a,a,a)',
+  );
+});
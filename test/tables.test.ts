@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { minify } from "../src/index";
+import { DEFAULT_LUAPARSE_SETTINGS } from "../src/minifier";
+
+// テーブルのキーの正規化: 識別子として書ける文字列のキー・1から連続する整数のキーを
+// 短い形で出力し、意味が変わりうる場合は書き換えないことを検証する。
+
+function minifyMain(code: string, luaVersion: "5.1" | "5.3" = "5.3"): string {
+  return minify({
+    entry: "main.lua",
+    modules: { "main.lua": code },
+    luaParseSettings: { ...DEFAULT_LUAPARSE_SETTINGS, luaVersion },
+  }).code;
+}
+
+void test("1から連続する整数のキーは位置で決まるフィールドにする", () => {
+  assert.equal(
+    minifyMain('local t = {[1] = a, ["name"] = c, [2] = b}\nprint(t)\n'),
+    "local d={a,name=c,b}print(d)",
+  );
+  // 最後のフィールドの複数の値を返しうる式は、全ての値が展開されるため書き換えない
+  assert.equal(
+    minifyMain("local t = {[1] = a, [2] = f()}\nprint(t)\n"),
+    "local b={a,[2]=f()}print(b)",
+  );
+});
+
+void test("位置で決まるフィールド・式のキーがある場合や、連続しない場合は書き換えない", () => {
+  assert.equal(
+    minifyMain("local t = {[1] = a, [2] = b, c}\nprint(t)\n"),
+    "local d={[1]=a,[2]=b,c}print(d)",
+  );
+  assert.equal(
+    minifyMain("local t = {[1] = a, [k] = b}\nprint(t)\n"),
+    "local c={[1]=a,[k]=b}print(c)",
+  );
+  assert.equal(
+    minifyMain("local t = {[1] = a, [3] = b}\nprint(t)\n"),
+    "local c={[1]=a,[3]=b}print(c)",
+  );
+});
+
+void test("識別子として書ける文字列のキーは`.field`・`field=`にする", () => {
+  assert.equal(
+    minifyMain(
+      'local t = {["end"] = 1, ["a b"] = 2, ["_x1"] = 3}\nprint(t["end"], t["_x1"], t["1a"], ("s")["len"])\n',
+    ),
+    'local a={["end"]=1,["a b"]=2,_x1=3}print(a["end"],a._x1,a["1a"],("s").len)',
+  );
+});
+
+void test("エスケープを含むキーはバージョンで値が変わりうるため書き換えない", () => {
+  // 5.1では`"\x41"`は`"x41"`になる
+  assert.equal(
+    minifyMain('t["\\x41"] = {["\\x41"] = 1}\n', "5.1"),
+    't["x41"]={["x41"]=1}',
+  );
+});
+
+void test("`.field`にするキーは文字列プールの対象にしない", () => {
+  assert.equal(
+    minifyMain(
+      'print(t["value"], t["value"], t["value"], t["value"], "value")\n',
+    ),
+    'print(t.value,t.value,t.value,t.value,"value")',
+  );
+});
+
+void test("位置で決まるフィールドにしてもpropertyの末尾のカンマを保つ", () => {
+  assert.equal(
+    minifyMain(
+      'local t = {[1] = a, [2] = property.getNumber("x") + 1}\nprint(t)\n',
+    ),
+    'local b={a,property.getNumber("x")+1,}print(b)',
+  );
+});
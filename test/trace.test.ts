@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { minify, traceErrorText } from "../src/index";
+
+// 実行時エラーの位置の変換（traceサブコマンド）: minify後のコードの位置と短縮名が
+// 元のファイル・位置・名前に書き換わることを検証する。
+
+const modules = {
+  "main.lua":
+    'local lib = require("lib")\nlocal function tick(speed)\n  local target = lib.find(speed)\n  return target.value\nend\nprint(tick(1), tick(2))\n',
+  "lib.lua":
+    "local M = {}\nfunction M.find(range)\n  local hit = nil\n  return hit\nend\nreturn M\n",
+};
+
+void test("エラーメッセージとスタックトレースの位置・短縮名を元に戻す", async () => {
+  const { code, map, names } = minify({ entry: "main.lua", modules });
+  // local function d(f)local g=e.find(f)return g.value end
+  const column = code.split("\n")[2].indexOf("g.value");
+  const error = [
+    '[string "local a={}function a.find(c)local b=nil..."]:3:' +
+      String(column) +
+      ": attempt to index a nil value (local 'g')",
+    "stack traceback:",
+    "\t[string \"local a={}...\"]:3: in local 'd'",
+    "\t[C]: in ?",
+  ].join("\n");
+  assert.equal(
+    await traceErrorText(error, map, names),
+    [
+      "main.lua:4:9: attempt to index a nil value (local 'target')",
+      "stack traceback:",
+      "\tmain.lua:2: in local 'tick'",
+      "\t[C]: in ?",
+    ].join("\n"),
+  );
+});
+
+void test("対応表が無ければ、位置のマッピングの名前を使う", async () => {
+  const { code, map } = minify({ entry: "main.lua", modules });
+  const column = code.split("\n")[1].indexOf("b end");
+  assert.equal(
+    await traceErrorText(
+      "main.min.lua:2:" + String(column) + ": bad value (local 'b')",
+      map,
+    ),
+    "lib.lua:4:9: bad value (local 'hit')",
+  );
+  // 出力以外のファイルの位置は書き換えない
+  assert.equal(
+    await traceErrorText("other.lua:2:3: error (local 'b')", map),
+    "other.lua:2:3: error (local 'b')",
+  );
+});
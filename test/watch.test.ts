@@ -0,0 +1,104 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as delay } from "timers/promises";
+import { Minifier } from "../src/minifier";
+import { watchBuild, WatchFileFunction } from "../src/watch";
+import { LUAPARSE_SETTINGS, fixtureEntryPath } from "./lib/helpers";
+
+// watchモードの監視対象の追従を検証する。実ファイルの監視はせず、
+// 変更通知を手動で発火できるフェイクのwatchFileを注入する。
+function fakeWatchFile() {
+  const listeners = new Map<string, () => void>();
+  const watchFile: WatchFileFunction = (filePath, onChange) => {
+    listeners.set(filePath, onChange);
+    return () => listeners.delete(filePath);
+  };
+  return { listeners, watchFile };
+}
+
+void test("watchBuild: 初回ビルドが返したファイルをすべて監視する", () => {
+  const { listeners, watchFile } = fakeWatchFile();
+  const watcher = watchBuild(() => ["main.lua", "mod.lua"], { watchFile });
+
+  assert.deepEqual(watcher.watchedFiles, new Set(["main.lua", "mod.lua"]));
+  assert.deepEqual(new Set(listeners.keys()), new Set(["main.lua", "mod.lua"]));
+  watcher.close();
+  assert.equal(listeners.size, 0);
+});
+
+void test("watchBuild: 変更時に再ビルドし、追加されたファイルを監視・外れたファイルを解除する", async () => {
+  const { listeners, watchFile } = fakeWatchFile();
+  const results = [
+    ["main.lua", "old.lua"],
+    ["main.lua", "new.lua"],
+  ];
+  let builds = 0;
+  const watcher = watchBuild(() => results[Math.min(builds++, 1)], {
+    watchFile,
+    debounceMs: 0,
+  });
+
+  listeners.get("old.lua")?.();
+  await delay(10);
+
+  assert.equal(builds, 2);
+  assert.deepEqual(watcher.watchedFiles, new Set(["main.lua", "new.lua"]));
+  assert.ok(!listeners.has("old.lua"));
+  watcher.close();
+});
+
+void test("watchBuild: 短時間の連続した変更通知は1回の再ビルドにまとめる", async () => {
+  const { listeners, watchFile } = fakeWatchFile();
+  let builds = 0;
+  const watcher = watchBuild(
+    () => {
+      builds++;
+      return ["main.lua"];
+    },
+    { watchFile, debounceMs: 5 },
+  );
+
+  listeners.get("main.lua")?.();
+  listeners.get("main.lua")?.();
+  listeners.get("main.lua")?.();
+  await delay(30);
+
+  assert.equal(builds, 2);
+  watcher.close();
+});
+
+void test("Minifier.linkedFilePaths: requireで読み込まれた全ファイルを返す", () => {
+  const minifier = new Minifier(
+    fixtureEntryPath("require-call"),
+    LUAPARSE_SETTINGS,
+    { moduleLikeLua: true },
+  );
+  minifier.parse();
+
+  assert.deepEqual(
+    new Set(minifier.linkedFilePaths()),
+    new Set([
+      fixtureEntryPath("require-call"),
+      fixtureEntryPath("require-call", "mod.lua"),
+    ]),
+  );
+});
+
+void test("Minifier.linkedFilePaths: パースエラーで失敗しても、エラーになったファイルまでを返す", () => {
+  const minifier = new Minifier(
+    fixtureEntryPath("syntax-error"),
+    LUAPARSE_SETTINGS,
+    { moduleLikeLua: true },
+  );
+  const brokenPath = fixtureEntryPath("syntax-error", "broken.lua");
+
+  assert.throws(
+    () => minifier.parse(),
+    (e: unknown) =>
+      e instanceof SyntaxError && e.message.startsWith(brokenPath),
+  );
+  assert.deepEqual(
+    new Set(minifier.linkedFilePaths()),
+    new Set([fixtureEntryPath("syntax-error"), brokenPath]),
+  );
+});